@@ -23,6 +23,7 @@ async function runTest() {
     const mockComments: YouTubeComment[] = [
         {
             id: "c1",
+            videoId: "v1",
             text: "This tutorial is amazing! I finally understand the topic.",
             author: "User A",
             likeCount: 10,
@@ -32,6 +33,7 @@ async function runTest() {
         },
         {
             id: "c2",
+            videoId: "v1",
             text: "I completely disagree. Your method is dangerous.",
             author: "User B",
             likeCount: 5,
@@ -41,6 +43,7 @@ async function runTest() {
         },
         {
             id: "c3",
+            videoId: "v1",
             text: "What camera are you using?",
             author: "User C",
             likeCount: 1,
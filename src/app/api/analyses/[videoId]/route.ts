@@ -0,0 +1,30 @@
+/**
+ * API Route: /api/analyses/:videoId
+ *
+ * GET returns a stored VideoAnalysis, whatever its age, without running
+ * anything. Use /api/analyze to produce or refresh one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalysisRepository } from "@/lib/repository";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ videoId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { videoId } = await params;
+  const stored = await getAnalysisRepository()?.get(videoId);
+
+  if (!stored) {
+    return NextResponse.json({ error: "Analysis not found" }, { status: 404 });
+  }
+
+  // Analyses stored before the profile was part of VideoAnalysis keep it alongside
+  return NextResponse.json({
+    ...stored.analysis,
+    axisProfile: stored.analysis.axisProfile ?? stored.axisProfile,
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * API Route: /api/analyses
+ *
+ * GET lists the analyses in the server-side store, newest first.
+ * Empty when storage is disabled (ANALYSIS_STORE=none).
+ */
+
+import { NextResponse } from "next/server";
+import { getAnalysisRepository } from "@/lib/repository";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const repository = getAnalysisRepository();
+  const analyses = repository ? await repository.list() : [];
+
+  return NextResponse.json({ analyses });
+}
@@ -0,0 +1,95 @@
+/**
+ * API Route: /api/analyze/estimate
+ *
+ * Projects the tokens, cost and duration of analyzing a video before
+ * running it. Costs one YouTube quota unit (videos.list) and no LLM calls.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { YouTubeClient, createYouTubeClient } from "@/lib/youtube/client";
+import { createAnalysisEngine, isMockEngineEnabled } from "@/lib/engine/factory";
+import { formatModelId, getModelChain } from "@/lib/llm/provider";
+import { isStoredAnalysisFresh } from "@/lib/service/analysis-pipeline";
+import {
+  isSameAnalysisOptions,
+  parseAnalyzeRequest,
+  pickAnalysisOptions,
+  resolveAnalysisOptions,
+} from "@/lib/service/analysis-options";
+import { estimateAnalysisCost } from "@/lib/service/cost-estimate";
+import { describeAnalysisError } from "@/lib/service/analysis-errors";
+import { getAnalysisMaxAgeMs, getAnalysisRepository } from "@/lib/repository";
+import { generateMockVideo } from "@/lib/mock-data/generators";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    let json: unknown;
+    try {
+      json = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    // Same body as /api/analyze, so the estimate reflects the chosen options
+    const parsed = parseAnalyzeRequest(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.data;
+
+    const videoId = YouTubeClient.extractVideoId(body.url);
+    if (!videoId) {
+      // Same response as /api/analyze, so clients can open the playlist analysis instead
+      const playlistId = YouTubeClient.extractPlaylistId(body.url);
+      if (playlistId) {
+        return NextResponse.json({ error: "This is a playlist URL. Use /api/playlist to analyze its videos.", playlistId }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Invalid YouTube URL" }, { status: 400 });
+    }
+
+    const engine = createAnalysisEngine();
+    const batchSize = engine.getConfig().batchSize;
+    const settings = resolveAnalysisOptions(pickAnalysisOptions(body));
+
+    if (isMockEngineEnabled()) {
+      // Mock runs make no LLM calls
+      const commentCount = body.maxComments || 20;
+      const video = generateMockVideo({ id: videoId, commentCount });
+      return NextResponse.json(estimateAnalysisCost({
+        video,
+        maxComments: commentCount,
+        richTierThreshold: settings.richTierThreshold,
+        batchSize,
+        axisMode: false,
+        model: "mock",
+      }));
+    }
+
+    const video = await createYouTubeClient().getVideo(videoId);
+
+    const estimate = estimateAnalysisCost({
+      video,
+      maxComments: settings.maxComments,
+      richTierThreshold: settings.richTierThreshold,
+      batchSize,
+      axisMode: settings.mode === "axis",
+      model: formatModelId(getModelChain(settings.provider)[0].model),
+    });
+
+    // Mirrors the pipeline's reuse rule
+    const repository = getAnalysisRepository();
+    const stored = repository ? await repository.get(videoId) : null;
+    estimate.stored = !!stored && !body.force && !body.refresh &&
+      (!stored.options || isSameAnalysisOptions(resolveAnalysisOptions(stored.options), settings)) &&
+      isStoredAnalysisFresh(stored, getAnalysisMaxAgeMs());
+
+    return NextResponse.json(estimate);
+  } catch (error) {
+    console.error("Estimate error:", error);
+
+    const { message, status } = describeAnalysisError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
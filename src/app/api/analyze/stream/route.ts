@@ -0,0 +1,98 @@
+/**
+ * API Route: /api/analyze/stream
+ *
+ * Streaming variant of /api/analyze. Emits Server-Sent Events for each
+ * pipeline phase (video, transcript, summary, axis profile) and for every
+ * completed batch, so the dashboard can render results progressively.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { YouTubeClient } from "@/lib/youtube/client";
+import { isMockEngineEnabled } from "@/lib/engine/factory";
+import { runAnalysisPipeline, runMockAnalysisPipeline } from "@/lib/service/analysis-pipeline";
+import { describeAnalysisError } from "@/lib/service/analysis-errors";
+import { getAnalysisMaxAgeMs, getAnalysisRepository } from "@/lib/repository";
+import { getCommentAnalysisCache } from "@/lib/cache/comment-analysis-cache";
+import { parseAnalyzeRequest, pickAnalysisOptions } from "@/lib/service/analysis-options";
+import { formatSSE } from "@/lib/streaming/sse";
+import type { AnalysisProgressEvent } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const parsed = parseAnalyzeRequest(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  // Extract video ID
+  const videoId = YouTubeClient.extractVideoId(body.url);
+  if (!videoId) {
+    // Playlist URLs are analyzed as a batch by /api/playlist
+    const playlistId = YouTubeClient.extractPlaylistId(body.url);
+    if (playlistId) {
+      return NextResponse.json({ error: "This is a playlist URL. Use /api/playlist to analyze its videos.", playlistId }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Invalid YouTube URL" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisProgressEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSSE(event)));
+      };
+
+      try {
+        if (isMockEngineEnabled()) {
+          console.log("[API] Streaming in MOCK MODE (Mock dataset from generators.ts)");
+          await runMockAnalysisPipeline(body.maxComments || 20, { onProgress: send });
+        } else {
+          await runAnalysisPipeline(videoId, {
+            onProgress: send,
+            signal: request.signal,
+            repository: getAnalysisRepository(),
+            maxAgeMs: getAnalysisMaxAgeMs(),
+            forceRefresh: body.force,
+            refresh: body.refresh,
+            analysisOptions: pickAnalysisOptions(body),
+            commentCache: getCommentAnalysisCache(),
+          });
+        }
+      } catch (error) {
+        console.error("Streaming analysis error:", error);
+
+        const { message, status } = describeAnalysisError(error);
+        send({ type: "error", error: message, status });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client disconnected; stop writing to the stream
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
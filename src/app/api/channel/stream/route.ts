@@ -0,0 +1,100 @@
+/**
+ * API Route: /api/channel/stream
+ *
+ * Analyzes a channel's most recent uploads and streams Server-Sent Events:
+ * the channel and its uploads, the progress of each upload, and finally
+ * the channel report.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { YouTubeClient } from "@/lib/youtube/client";
+import { isMockEngineEnabled } from "@/lib/engine/factory";
+import { ChannelAnalysisRunner, runMockChannelAnalysis } from "@/lib/service/channel-analysis";
+import { describeAnalysisError } from "@/lib/service/analysis-errors";
+import { getAnalysisMaxAgeMs, getAnalysisRepository } from "@/lib/repository";
+import { getCommentAnalysisCache } from "@/lib/cache/comment-analysis-cache";
+import { getChannelLimits, parseChannelAnalysisRequest, pickAnalysisOptions } from "@/lib/service/analysis-options";
+import { formatSSE } from "@/lib/streaming/sse";
+import type { ChannelProgressEvent } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const parsed = parseChannelAnalysisRequest(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  const channelRef = YouTubeClient.extractChannelRef(body.channel);
+  if (!channelRef) {
+    return NextResponse.json({ error: "Invalid YouTube channel URL or handle" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChannelProgressEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSSE(event)));
+      };
+
+      try {
+        if (isMockEngineEnabled()) {
+          console.log("[API] Streaming channel analysis in MOCK MODE");
+          const limits = getChannelLimits();
+          await runMockChannelAnalysis(
+            Math.min(body.maxVideos || 5, limits.maxVideos),
+            Math.min(body.commentsPerVideo || 20, limits.commentsPerVideo),
+            { onProgress: send }
+          );
+        } else {
+          await new ChannelAnalysisRunner().run(channelRef, {
+            maxVideos: body.maxVideos,
+            commentsPerVideo: body.commentsPerVideo,
+            onProgress: send,
+            signal: request.signal,
+            pipelineOptions: {
+              repository: getAnalysisRepository(),
+              maxAgeMs: getAnalysisMaxAgeMs(),
+              forceRefresh: body.force,
+              commentCache: getCommentAnalysisCache(),
+            },
+            analysisOptions: pickAnalysisOptions(body),
+          });
+        }
+      } catch (error) {
+        console.error("Streaming channel analysis error:", error);
+
+        const { message, status } = describeAnalysisError(error);
+        send({ type: "error", error: message, status });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client disconnected; stop writing to the stream
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * API Route: /api/jobs/:id
+ *
+ * GET returns a background analysis job (status, progress, result).
+ * DELETE cancels it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getJobQueue } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getJobQueue().get(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getJobQueue().cancel(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/playlist/:id
+ *
+ * GET returns a playlist batch: the status of each video's job and, once
+ * every job has finished, the aggregate playlist report.
+ * DELETE cancels the batch's unfinished jobs.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cancelPlaylistBatch, getJobQueue, getPlaylistBatch } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const batch = await getPlaylistBatch(getJobQueue(), id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Playlist batch not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(batch);
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const batch = await cancelPlaylistBatch(getJobQueue(), id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Playlist batch not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(batch);
+}
@@ -0,0 +1,74 @@
+/**
+ * API Route: /api/playlist
+ *
+ * Starts a batch analysis of a playlist (a `list=` URL): one background job
+ * per video, sharing the job queue with single-video analyses. Returns the
+ * batch; poll /api/playlist/:id for progress and the aggregate report.
+ * Each video's analysis can be opened on its own from /api/jobs/:id.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { YouTubeClient, createYouTubeClient } from "@/lib/youtube/client";
+import { isMockEngineEnabled } from "@/lib/engine/factory";
+import { enqueuePlaylistBatch, getJobQueue, type PlaylistBatchInput } from "@/lib/jobs";
+import { generateMockPlaylist } from "@/lib/mock-data/generators";
+import { describeAnalysisError } from "@/lib/service/analysis-errors";
+import {
+  getPlaylistMaxVideos,
+  parsePlaylistAnalysisRequest,
+  pickAnalysisOptions,
+} from "@/lib/service/analysis-options";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    let json: unknown;
+    try {
+      json = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = parsePlaylistAnalysisRequest(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.data;
+
+    const playlistId = YouTubeClient.extractPlaylistId(body.url);
+    if (!playlistId) {
+      return NextResponse.json({ error: "Invalid YouTube playlist URL" }, { status: 400 });
+    }
+
+    const maxVideos = Math.min(body.maxVideos ?? getPlaylistMaxVideos(), getPlaylistMaxVideos());
+
+    let input: Pick<PlaylistBatchInput, "playlist" | "items">;
+    if (isMockEngineEnabled()) {
+      console.log("[API] Queuing playlist in MOCK MODE");
+      input = generateMockPlaylist(Math.min(maxVideos, 5));
+    } else {
+      const youtubeClient = createYouTubeClient();
+      const playlist = await youtubeClient.getPlaylist(playlistId);
+      const items = await youtubeClient.getPlaylistItems(playlistId, { maxItems: maxVideos });
+      input = { playlist, items };
+    }
+
+    if (input.items.length === 0) {
+      return NextResponse.json({ error: "This playlist has no public videos" }, { status: 404 });
+    }
+
+    const batch = await enqueuePlaylistBatch(getJobQueue(), {
+      ...input,
+      options: pickAnalysisOptions(body),
+      force: body.force,
+    });
+
+    return NextResponse.json(batch, { status: 202, headers: { Location: `/api/playlist/${batch.id}` } });
+  } catch (error) {
+    console.error("Playlist analysis error:", error);
+
+    const { message, status } = describeAnalysisError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * API Route: /api/quota
+ *
+ * Reports YouTube Data API quota spent today against the configured budget.
+ */
+
+import { NextResponse } from "next/server";
+import { getQuotaTracker } from "@/lib/youtube/quota";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  return NextResponse.json(getQuotaTracker().getUsage());
+}
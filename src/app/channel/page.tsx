@@ -0,0 +1,227 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChannelTrendChart } from "@/components/charts/channel-trend-chart";
+import { RecurringCommentersPanel } from "@/components/recurring-commenters-panel";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ChannelProgressEvent, ChannelReport, ChannelVideoSummary, YouTubeChannel } from "@/types";
+import { readSSE } from "@/lib/streaming/sse";
+
+import { useLanguage } from "@/lib/i18n/context";
+
+const DEFAULT_MAX_VIDEOS = 10;
+const DEFAULT_COMMENTS_PER_VIDEO = 200;
+
+interface ChannelProgress {
+  channel?: YouTubeChannel;
+  index: number;
+  total: number;
+  videos: ChannelVideoSummary[]; // Finished so far
+}
+
+export default function ChannelPage() {
+  const [channelInput, setChannelInput] = useState("");
+  const [maxVideos, setMaxVideos] = useState(DEFAULT_MAX_VIDEOS);
+  const [commentsPerVideo, setCommentsPerVideo] = useState(DEFAULT_COMMENTS_PER_VIDEO);
+  const [progress, setProgress] = useState<ChannelProgress | null>(null);
+  const [report, setReport] = useState<ChannelReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const { t } = useLanguage();
+
+  const handleEvent = (event: ChannelProgressEvent) => {
+    switch (event.type) {
+      case "channel":
+        setProgress({ channel: event.channel, index: 0, total: event.videos.length, videos: [] });
+        break;
+      case "videoStart":
+        setProgress((prev) => prev && { ...prev, index: event.index, total: event.total });
+        break;
+      case "videoComplete":
+        setProgress((prev) => prev && { ...prev, videos: [...prev.videos, event.summary] });
+        break;
+      case "videoError":
+        toast.warning(event.error);
+        break;
+      case "complete":
+        setReport(event.report);
+        break;
+      case "error":
+        throw new Error(event.error || t.common.error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRunning(true);
+    setReport(null);
+    setProgress(null);
+
+    try {
+      const response = await fetch("/api/channel/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel: channelInput, maxVideos, commentsPerVideo }),
+      });
+      if (!response.ok || !response.body) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.common.error);
+      }
+
+      await readSSE<ChannelProgressEvent>(response.body, handleEvent);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t.common.error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const channel = report?.channel || progress?.channel;
+  const videos = report?.videos || progress?.videos || [];
+  const formatShare = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : "–");
+
+  return (
+    <div className="space-y-8">
+      <Card className="glass-dark border-white/10">
+        <CardHeader>
+          <CardTitle className="gradient-text text-2xl">{t.channel.title}</CardTitle>
+          <p className="text-sm text-muted-foreground">{t.channel.description}</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-3">
+            <Input
+              type="text"
+              className="flex-1 bg-background/50"
+              placeholder={t.channel.placeholder}
+              value={channelInput}
+              onChange={(e) => setChannelInput(e.target.value)}
+              disabled={isRunning}
+            />
+            <label className="space-y-1 text-sm">
+              <span className="text-xs text-muted-foreground">{t.channel.maxVideos}</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-9 w-24 bg-background/50"
+                value={maxVideos}
+                onChange={(e) => setMaxVideos(Math.max(1, parseInt(e.target.value) || 1))}
+                disabled={isRunning}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-xs text-muted-foreground">{t.channel.commentsPerVideo}</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-9 w-32 bg-background/50"
+                value={commentsPerVideo}
+                onChange={(e) => setCommentsPerVideo(Math.max(1, parseInt(e.target.value) || 1))}
+                disabled={isRunning}
+              />
+            </label>
+            <Button type="submit" disabled={isRunning || !channelInput.trim()}>
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t.channel.submit}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isRunning && !channel && <Skeleton className="h-40 w-full rounded-lg" />}
+
+      {channel && (
+        <Card className="glass-dark border-white/10">
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              {channel.thumbnailUrl && (
+                <img src={channel.thumbnailUrl} alt="" className="h-14 w-14 rounded-full" />
+              )}
+              <div>
+                <CardTitle>{channel.title}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {channel.handle}
+                  {channel.subscriberCount !== undefined && (
+                    <> · {t.channel.subscribers.replace("{count}", channel.subscriberCount.toLocaleString())}</>
+                  )}
+                </p>
+              </div>
+            </div>
+            {isRunning && progress && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2 pt-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {t.channel.progress
+                  .replace("{index}", String(Math.min(progress.index + 1, progress.total)))
+                  .replace("{total}", String(progress.total))}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <p className="font-semibold mb-2">{t.channel.videosTitle}</p>
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr className="border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium">{t.compare.video}</th>
+                  <th className="py-2 pr-4 font-medium">{t.channel.published}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t.video.comments}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t.channel.avgSentiment}</th>
+                  <th className="py-2 font-medium text-right">
+                    {t.charts.positive} / {t.charts.neutral} / {t.charts.negative}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {videos.map((video) => {
+                  const { support, neutral, oppose, total } = video.distribution;
+                  return (
+                    <tr key={video.videoId} className="border-b border-white/5 align-top">
+                      <td className="py-3 pr-4">
+                        <p className="font-semibold">{video.title}</p>
+                        {video.mainAxis && <p className="text-xs text-muted-foreground">{video.mainAxis}</p>}
+                      </td>
+                      <td className="py-3 pr-4 whitespace-nowrap">{new Date(video.publishedAt).toLocaleDateString()}</td>
+                      <td className="py-3 pr-4 text-right tabular-nums">{total.toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-right tabular-nums">
+                        {video.avgSentiment > 0 ? "+" : ""}
+                        {video.avgSentiment.toFixed(2)}
+                      </td>
+                      <td className="py-3 text-right tabular-nums whitespace-nowrap">
+                        <span className="text-green-400">{formatShare(support, total)}</span>
+                        {" / "}
+                        <span className="text-gray-400">{formatShare(neutral, total)}</span>
+                        {" / "}
+                        <span className="text-red-400">{formatShare(oppose, total)}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {report?.failedVideos.map((failed) => (
+                  <tr key={failed.videoId} className="border-b border-white/5 text-muted-foreground">
+                    <td className="py-3 pr-4">{failed.title}</td>
+                    <td colSpan={4} className="py-3 text-right">
+                      <span className="inline-flex items-center gap-1" title={failed.error}>
+                        <AlertTriangle className="w-3 h-3" />
+                        {t.channel.failed}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <>
+          <ChannelTrendChart trend={report.trend} />
+
+          <RecurringCommentersPanel commenters={report.recurringCommenters} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SentimentDonutChart } from "@/components/charts/sentiment-donut-chart";
+import { ComparisonTimeline, COMPARISON_COLORS } from "@/components/charts/comparison-timeline";
+import { Database, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import type { AnalysisProgressEvent, VideoAnalysis } from "@/types";
+import type { StoredAnalysisSummary } from "@/lib/repository/types";
+import { getCachedAnalysis, setCachedAnalysis } from "@/lib/cache/analysis-cache";
+import { readSSE } from "@/lib/streaming/sse";
+
+import { useLanguage } from "@/lib/i18n/context";
+
+// Videos shown side by side
+const MAX_VIDEOS = 6;
+
+interface ComparisonEntry {
+  key: string; // URL, or video ID for stored analyses
+  status: "loading" | "done" | "error";
+  analysis?: VideoAnalysis;
+  error?: string;
+}
+
+export default function ComparePage() {
+  const [urls, setUrls] = useState("");
+  const [entries, setEntries] = useState<ComparisonEntry[]>([]);
+  const [stored, setStored] = useState<StoredAnalysisSummary[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    fetch("/api/analyses")
+      .then((response) => (response.ok ? response.json() : { analyses: [] }))
+      .then((data: { analyses: StoredAnalysisSummary[] }) => setStored(data.analyses))
+      .catch((err) => console.warn("Failed to list stored analyses:", err));
+  }, []);
+
+  const updateEntry = (key: string, update: Partial<ComparisonEntry>) => {
+    setEntries((prev) => prev.map((entry) => (entry.key === key ? { ...entry, ...update } : entry)));
+  };
+
+  const analyzeUrl = async (url: string): Promise<VideoAnalysis> => {
+    const cached = getCachedAnalysis(url);
+    if (cached) return cached;
+
+    // The server reuses a fresh stored analysis before spending any quota
+    const response = await fetch("/api/analyze/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url }),
+    });
+    if (!response.ok || !response.body) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || t.common.error);
+    }
+
+    let analysis: VideoAnalysis | null = null;
+    await readSSE<AnalysisProgressEvent>(response.body, (event) => {
+      if (event.type === "complete") analysis = event.analysis;
+      if (event.type === "error") throw new Error(event.error || t.common.error);
+    });
+    if (!analysis) throw new Error(t.common.error);
+
+    setCachedAnalysis(url, analysis);
+    return analysis;
+  };
+
+  const loadStored = async (videoId: string): Promise<VideoAnalysis> => {
+    const response = await fetch(`/api/analyses/${encodeURIComponent(videoId)}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || t.common.error);
+    return data;
+  };
+
+  const addEntries = async (keys: string[], load: (key: string) => Promise<VideoAnalysis>) => {
+    const existing = new Set(entries.map((entry) => entry.key));
+    const room = MAX_VIDEOS - entries.length;
+    const added = keys.filter((key) => !existing.has(key)).slice(0, Math.max(0, room));
+    if (added.length < keys.filter((key) => !existing.has(key)).length) {
+      toast.warning(t.compare.limit.replace("{max}", String(MAX_VIDEOS)));
+    }
+    if (added.length === 0) return;
+
+    setEntries((prev) => [...prev, ...added.map((key) => ({ key, status: "loading" as const }))]);
+    setIsRunning(true);
+
+    // One at a time, so a comparison never runs several analyses against the quota at once
+    for (const key of added) {
+      try {
+        updateEntry(key, { status: "done", analysis: await load(key) });
+      } catch (err) {
+        updateEntry(key, { status: "error", error: err instanceof Error ? err.message : t.common.error });
+      }
+    }
+    setIsRunning(false);
+  };
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    const lines = urls.split(/\s+/).map((line) => line.trim()).filter(Boolean);
+    setUrls("");
+    addEntries(lines, analyzeUrl);
+  };
+
+  const removeEntry = (key: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.key !== key));
+  };
+
+  const analyses = entries.flatMap((entry) => (entry.analysis ? [entry.analysis] : []));
+  const colorOf = (analysis: VideoAnalysis) => COMPARISON_COLORS[analyses.indexOf(analysis) % COMPARISON_COLORS.length];
+  const formatShare = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : "–");
+
+  return (
+    <div className="space-y-8">
+      <Card className="glass-dark border-white/10">
+        <CardHeader>
+          <CardTitle className="gradient-text text-2xl">{t.compare.title}</CardTitle>
+          <p className="text-sm text-muted-foreground">{t.compare.description}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleCompare} className="space-y-3">
+            <textarea
+              className="w-full min-h-28 rounded-md border border-input bg-background/50 px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              placeholder={t.compare.placeholder}
+              value={urls}
+              onChange={(e) => setUrls(e.target.value)}
+              disabled={isRunning}
+            />
+            <Button type="submit" disabled={isRunning || !urls.trim()}>
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t.compare.submit}
+            </Button>
+          </form>
+
+          {stored.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Database className="w-4 h-4" />
+                {t.compare.stored}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {stored.map((summary) => (
+                  <Button
+                    key={summary.videoId}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="max-w-xs"
+                    disabled={isRunning || entries.some((entry) => entry.key === summary.videoId)}
+                    onClick={() => addEntries([summary.videoId], loadStored)}
+                    title={`${summary.channelName} · ${new Date(summary.storedAt).toLocaleString()}`}
+                  >
+                    <span className="truncate">{summary.title}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {entries.map((entry) => (
+                <Badge
+                  key={entry.key}
+                  variant="outline"
+                  className={entry.status === "error" ? "border-red-500/50 text-red-400" : ""}
+                  title={entry.error}
+                >
+                  {entry.status === "loading" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                  <span className="max-w-48 truncate">{entry.analysis?.video.title || entry.key}</span>
+                  {entry.status !== "loading" && (
+                    <button
+                      type="button"
+                      className="ml-1 opacity-70 hover:opacity-100"
+                      onClick={() => removeEntry(entry.key)}
+                      aria-label={t.compare.remove}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isRunning && analyses.length === 0 && <Skeleton className="h-80 w-full rounded-lg" />}
+
+      {analyses.length > 0 && (
+        <>
+          <Card className="glass-dark border-white/10">
+            <CardHeader>
+              <CardTitle className="gradient-text">{t.compare.tableTitle}</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground">
+                  <tr className="border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">{t.compare.video}</th>
+                    <th className="py-2 pr-4 font-medium">{t.compare.mainAxis}</th>
+                    <th className="py-2 pr-4 font-medium">{t.compare.creatorPosition}</th>
+                    <th className="py-2 pr-4 font-medium text-right">{t.video.comments}</th>
+                    <th className="py-2 font-medium text-right">
+                      {t.charts.positive} / {t.charts.neutral} / {t.charts.negative}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analyses.map((analysis) => {
+                    const { support, neutral, oppose, total } = analysis.distribution;
+                    return (
+                      <tr key={analysis.video.id} className="border-b border-white/5 align-top">
+                        <td className="py-3 pr-4">
+                          <div className="flex items-start gap-2">
+                            <span
+                              className="mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full"
+                              style={{ backgroundColor: colorOf(analysis) }}
+                            />
+                            <div>
+                              <p className="font-semibold">{analysis.video.title}</p>
+                              <p className="text-xs text-muted-foreground">{analysis.video.channelName}</p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="py-3 pr-4">{analysis.axisProfile?.mainAxis || t.compare.noProfile}</td>
+                        <td className="py-3 pr-4">{analysis.axisProfile?.creatorPosition || t.compare.noProfile}</td>
+                        <td className="py-3 pr-4 text-right tabular-nums">{total.toLocaleString()}</td>
+                        <td className="py-3 text-right tabular-nums whitespace-nowrap">
+                          <span className="text-green-400">{formatShare(support, total)}</span>
+                          {" / "}
+                          <span className="text-gray-400">{formatShare(neutral, total)}</span>
+                          {" / "}
+                          <span className="text-red-400">{formatShare(oppose, total)}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {analyses.map((analysis) => (
+              <div key={analysis.video.id} className="space-y-2">
+                <p className="text-sm font-semibold truncate flex items-center gap-2" title={analysis.video.title}>
+                  <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: colorOf(analysis) }} />
+                  {analysis.video.title}
+                </p>
+                <SentimentDonutChart
+                  support={analysis.distribution.support}
+                  neutral={analysis.distribution.neutral}
+                  oppose={analysis.distribution.oppose}
+                  sampling={analysis.sampling}
+                  confidence={analysis.confidence}
+                  spam={analysis.distribution.spam}
+                />
+              </div>
+            ))}
+          </div>
+
+          <ComparisonTimeline analyses={analyses} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ const geistMono = Geist_Mono({
 
 import { LanguageProvider } from "@/lib/i18n/context";
 import { LanguageSwitcher } from "@/components/language-switcher";
+import { SiteNav } from "@/components/site-nav";
 import { ThemeProvider } from "@/components/theme-provider";
 
 export const metadata: Metadata = {
@@ -44,7 +45,10 @@ export default function RootLayout({
               <header className="fixed top-0 left-0 right-0 z-50 glass-dark">
                 <div className="container mx-auto px-4 py-4 flex items-center justify-between">
                   <h1 className="text-2xl font-bold gradient-text">CommentRadar</h1>
-                  <LanguageSwitcher />
+                  <div className="flex items-center gap-4">
+                    <SiteNav />
+                    <LanguageSwitcher />
+                  </div>
                 </div>
               </header>
               <main className="container mx-auto px-4 pt-24 pb-12">
@@ -1,53 +1,98 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import { HeroSearch } from "@/components/hero-search";
 import { VideoInfoCard } from "@/components/video-info-card";
 import { SentimentDonutChart } from "@/components/charts/sentiment-donut-chart";
 import { TimeScatterPlot } from "@/components/charts/time-scatter-plot";
 import { SentimentTimeline } from "@/components/charts/sentiment-timeline";
 import { CommentList } from "@/components/comment-list";
+import { AnalysisProgress } from "@/components/analysis-progress";
+import { QuotaIndicator } from "@/components/quota-indicator";
+import { UsageCard } from "@/components/usage-card";
+import { ActivityEventsPanel } from "@/components/activity-events-panel";
+import { AuthorsPanel } from "@/components/authors-panel";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
-import type { VideoAnalysis } from "@/types";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+import type { AnalysisJob } from "@/lib/jobs/types";
+import type { AnalysisOptions, AnalysisPhase, VideoAnalysis } from "@/types";
 import { toast } from "sonner";
 import { getCachedAnalysis, setCachedAnalysis } from "@/lib/cache/analysis-cache";
+import { buildVideoAnalysis } from "@/lib/analysis/aggregate";
 
 import { useLanguage } from "@/lib/i18n/context";
 
+const JOB_POLL_INTERVAL_MS = 1500;
+
 export default function Home() {
   const [analysis, setAnalysis] = useState<VideoAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [quotaKey, setQuotaKey] = useState(0);
+  const [lastSearch, setLastSearch] = useState<{ url: string; options: AnalysisOptions } | null>(null);
+  const [progress, setProgress] = useState<{ phase: AnalysisPhase; completedBatches: number; totalBatches: number } | null>(null);
   const { language, t } = useLanguage();
+  const router = useRouter();
+
+  // Polling stops when another analysis starts or the page unmounts
+  const activeJobRef = useRef<string | null>(null);
+  useEffect(() => () => {
+    activeJobRef.current = null;
+  }, []);
+
+  /**
+   * Poll a background job until it finishes, showing its progress and
+   * rebuilding the charts from the comments analyzed so far
+   * Resolves with null if another job took over in the meantime.
+   */
+  const waitForJob = async (jobId: string): Promise<VideoAnalysis | null> => {
+    activeJobRef.current = jobId;
+
+    while (activeJobRef.current === jobId) {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || t.common.error);
+      const { status, progress, result, error, url, options }: AnalysisJob = data;
+
+      setLastSearch((prev) => prev || { url, options: options || {} });
+      if (progress.phase) {
+        setProgress({ phase: progress.phase, completedBatches: progress.completedBatches, totalBatches: progress.totalBatches });
+      }
+      if (status === "running" && progress.video) {
+        setAnalysis(buildVideoAnalysis(progress.video, progress.comments || []));
+      }
 
-  const handleSearch = async (url: string) => {
+      if (status === "completed" && result) {
+        setCachedAnalysis(url, result);
+        return result;
+      }
+      if (status === "failed" || status === "cancelled") {
+        throw new Error(error?.message || t.common.error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+    return null;
+  };
+
+  /**
+   * Follow a job to completion; its ID is kept in the URL (?job=<id>) so a
+   * reload reattaches to the running analysis instead of losing it
+   */
+  const followJob = async (jobId: string) => {
     setIsLoading(true);
     setError(null);
-    setAnalysis(null);
-
     toast.loading(t.common.loading, { id: "analysis" });
 
     try {
-      const response = await fetch("/api/analyze", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ url, maxComments: 50 }),
-      });
+      const data = await waitForJob(jobId);
+      if (!data) return;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || t.common.error);
-      }
-
-      const data: VideoAnalysis = await response.json();
       setAnalysis(data);
 
-      // Cache the result
-      setCachedAnalysis(url, data);
-
       const successMsg = language === "ja"
         ? `分析が完了しました！${data.comments.length}件のコメントを分析しました。`
         : `Analysis complete! Analyzed ${data.comments.length} comments.`;
@@ -58,13 +103,68 @@ export default function Home() {
       setError(errorMessage);
       toast.error(errorMessage, { id: "analysis" });
     } finally {
+      if (activeJobRef.current === jobId) {
+        activeJobRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+        setQuotaKey((key) => key + 1);
+      }
+    }
+  };
+
+  // Reattach to a background job, e.g. after a reload or from a playlist batch: /?job=<id>
+  const reattachJob = useEffectEvent((jobId: string) => {
+    followJob(jobId);
+  });
+  useEffect(() => {
+    const jobId = new URLSearchParams(window.location.search).get("job");
+    if (jobId) reattachJob(jobId);
+  }, []);
+
+  const handleSearch = async (url: string, analysisOptions: AnalysisOptions = {}, options?: { refresh?: boolean }) => {
+    activeJobRef.current = null;
+    setIsLoading(true);
+    setError(null);
+    setProgress(null);
+    setLastSearch({ url, options: analysisOptions });
+    if (!options?.refresh) {
+      setAnalysis(null);
+    }
+
+    try {
+      const response = await fetch("/api/analyze", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url, ...analysisOptions, refresh: options?.refresh }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.playlistId) {
+          // Playlists are analyzed as a batch on their own page
+          toast.info(t.playlist.redirect, { id: "analysis" });
+          router.push(`/playlist?url=${encodeURIComponent(url)}`);
+          return;
+        }
+        throw new Error(data.error || t.common.error);
+      }
+
+      router.replace(`/?job=${data.jobId}`, { scroll: false });
+      await followJob(data.jobId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : t.common.error;
+      setError(errorMessage);
       setIsLoading(false);
+      toast.error(errorMessage, { id: "analysis" });
     }
   };
 
   return (
     <div className="space-y-8">
       <HeroSearch onSearch={handleSearch} isLoading={isLoading} />
+      <QuotaIndicator refreshKey={quotaKey} />
 
       {error && (
         <Card className="glass-dark border-red-500/50">
@@ -74,7 +174,15 @@ export default function Home() {
         </Card>
       )}
 
-      {isLoading && (
+      {isLoading && progress && (
+        <AnalysisProgress
+          phase={progress.phase}
+          completedBatches={progress.completedBatches}
+          totalBatches={progress.totalBatches}
+        />
+      )}
+
+      {isLoading && !analysis && (
         <div className="space-y-6">
           <Skeleton className="h-48 w-full rounded-lg" />
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -85,7 +193,7 @@ export default function Home() {
         </div>
       )}
 
-      {analysis && !isLoading && (
+      {analysis && (
         <>
           {analysis.isPartial && (
             <Card className="glass-dark border-yellow-500/50 mb-6">
@@ -99,18 +207,46 @@ export default function Home() {
           )}
           <VideoInfoCard {...analysis.video} />
 
+          {lastSearch && !isLoading && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleSearch(lastSearch.url, lastSearch.options, { refresh: true })}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                {t.common.refresh}
+              </Button>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <SentimentDonutChart
               support={analysis.distribution.support}
               neutral={analysis.distribution.neutral}
               oppose={analysis.distribution.oppose}
+              sampling={analysis.sampling}
+              confidence={analysis.confidence}
+              spam={analysis.distribution.spam}
+            />
+            <SentimentTimeline
+              comments={analysis.comments}
+              videoPublishedAt={analysis.video.publishedAt}
+              events={analysis.activityEvents}
             />
-            <SentimentTimeline data={analysis.timeline} />
           </div>
 
-          <TimeScatterPlot data={analysis.scatterData} />
+          <TimeScatterPlot data={analysis.scatterData} events={analysis.activityEvents} />
+
+          {analysis.activityEvents && analysis.activityEvents.length > 0 && (
+            <ActivityEventsPanel events={analysis.activityEvents} />
+          )}
 
           <CommentList comments={analysis.comments} maxDisplay={20} />
+
+          {analysis.authors && analysis.authors.length > 0 && <AuthorsPanel authors={analysis.authors} />}
+
+          {analysis.usage && <UsageCard usage={analysis.usage} />}
         </>
       )}
     </div>
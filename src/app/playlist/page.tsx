@@ -0,0 +1,226 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { SentimentDonutChart } from "@/components/charts/sentiment-donut-chart";
+import { RecurringCommentersPanel } from "@/components/recurring-commenters-panel";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { JobStatus, PlaylistBatch } from "@/lib/jobs/types";
+
+import { useLanguage } from "@/lib/i18n/context";
+
+const DEFAULT_MAX_VIDEOS = 25;
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "text-muted-foreground",
+  running: "border-purple-500/50 text-purple-300",
+  completed: "border-green-500/50 text-green-400",
+  failed: "border-red-500/50 text-red-400",
+  cancelled: "text-muted-foreground",
+};
+
+export default function PlaylistPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <PlaylistAnalysis />
+    </Suspense>
+  );
+}
+
+function PlaylistAnalysis() {
+  const searchParams = useSearchParams();
+  const [url, setUrl] = useState(searchParams.get("url") || "");
+  const [maxVideos, setMaxVideos] = useState(DEFAULT_MAX_VIDEOS);
+  const [batch, setBatch] = useState<PlaylistBatch | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const { t } = useLanguage();
+
+  const isRunning = batch?.status === "running";
+
+  // Poll the batch until every job has finished; each update schedules the next poll
+  useEffect(() => {
+    if (!batch || batch.status !== "running") return;
+
+    const timer = setTimeout(() => {
+      fetch(`/api/playlist/${batch.id}`)
+        .then((response) => (response.ok ? response.json() : Promise.reject(new Error(t.common.error))))
+        .then((data: PlaylistBatch) => setBatch(data))
+        .catch((err) => console.warn("Failed to poll playlist batch:", err));
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batch, t]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+
+    try {
+      const response = await fetch("/api/playlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, maxVideos }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || t.common.error);
+      setBatch(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t.common.error);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!batch) return;
+    const response = await fetch(`/api/playlist/${batch.id}`, { method: "DELETE" });
+    if (response.ok) setBatch(await response.json());
+  };
+
+  const report = batch?.report;
+  const summaries = new Map(report?.videos.map((video) => [video.videoId, video]));
+  const done = batch?.videos.filter((video) => video.status !== "queued" && video.status !== "running").length || 0;
+  const formatShare = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : "–");
+
+  return (
+    <div className="space-y-8">
+      <Card className="glass-dark border-white/10">
+        <CardHeader>
+          <CardTitle className="gradient-text text-2xl">{t.playlist.title}</CardTitle>
+          <p className="text-sm text-muted-foreground">{t.playlist.description}</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-3">
+            <Input
+              type="text"
+              className="flex-1 bg-background/50"
+              placeholder={t.playlist.placeholder}
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              disabled={isStarting || isRunning}
+            />
+            <label className="space-y-1 text-sm">
+              <span className="text-xs text-muted-foreground">{t.playlist.maxVideos}</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-9 w-24 bg-background/50"
+                value={maxVideos}
+                onChange={(e) => setMaxVideos(Math.max(1, parseInt(e.target.value) || 1))}
+                disabled={isStarting || isRunning}
+              />
+            </label>
+            <Button type="submit" disabled={isStarting || isRunning || !url.trim()}>
+              {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t.playlist.submit}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {batch && (
+        <Card className="glass-dark border-white/10">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{batch.playlist.title}</CardTitle>
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  {batch.playlist.channelName}
+                  {" · "}
+                  {isRunning && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {t.playlist.queued.replace("{done}", String(done)).replace("{total}", String(batch.videos.length))}
+                </p>
+              </div>
+              {isRunning && (
+                <Button type="button" variant="outline" size="sm" onClick={handleCancel}>
+                  {t.playlist.cancel}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr className="border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium">#</th>
+                  <th className="py-2 pr-4 font-medium">{t.compare.video}</th>
+                  <th className="py-2 pr-4 font-medium">{t.playlist.statusHeader}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t.video.comments}</th>
+                  <th className="py-2 pr-4 font-medium text-right">
+                    {t.charts.positive} / {t.charts.neutral} / {t.charts.negative}
+                  </th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {batch.videos.map((video) => {
+                  const summary = summaries.get(video.videoId);
+                  const distribution = summary?.distribution;
+                  return (
+                    <tr key={video.jobId} className="border-b border-white/5 align-top">
+                      <td className="py-3 pr-4 tabular-nums text-muted-foreground">{video.position + 1}</td>
+                      <td className="py-3 pr-4 font-semibold">{video.title}</td>
+                      <td className="py-3 pr-4">
+                        <Badge variant="outline" className={STATUS_STYLES[video.status]} title={video.error?.message}>
+                          {video.status === "running" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                          {t.playlist.status[video.status]}
+                          {video.status === "running" && video.progress.totalBatches > 0 && (
+                            <> {video.progress.completedBatches}/{video.progress.totalBatches}</>
+                          )}
+                        </Badge>
+                      </td>
+                      <td className="py-3 pr-4 text-right tabular-nums">{distribution ? distribution.total.toLocaleString() : "–"}</td>
+                      <td className="py-3 pr-4 text-right tabular-nums whitespace-nowrap">
+                        {distribution ? (
+                          <>
+                            <span className="text-green-400">{formatShare(distribution.support, distribution.total)}</span>
+                            {" / "}
+                            <span className="text-gray-400">{formatShare(distribution.neutral, distribution.total)}</span>
+                            {" / "}
+                            <span className="text-red-400">{formatShare(distribution.oppose, distribution.total)}</span>
+                          </>
+                        ) : "–"}
+                      </td>
+                      <td className="py-3 text-right">
+                        {video.status === "completed" && (
+                          <Button asChild variant="ghost" size="sm">
+                            <Link href={`/?job=${video.jobId}`}>
+                              {t.playlist.open}
+                              <ExternalLink className="ml-1 w-3 h-3" />
+                            </Link>
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">{t.playlist.overallTitle}</p>
+            <SentimentDonutChart
+              support={report.distribution.support}
+              neutral={report.distribution.neutral}
+              oppose={report.distribution.oppose}
+              spam={report.distribution.spam}
+            />
+          </div>
+          <RecurringCommentersPanel commenters={report.recurringCommenters} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ThumbsUp, Zap } from "lucide-react";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { ActivityEvent } from "@/types";
+
+interface ActivityEventsPanelProps {
+  events: ActivityEvent[];
+}
+
+export function ActivityEventsPanel({ events }: ActivityEventsPanelProps) {
+  const { t } = useLanguage();
+
+  const formatHours = (hours: number) => `${hours.toFixed(1)}h`;
+  const formatPercent = (share: number) => String(Math.round(share * 100));
+
+  const getStanceColor = (stance: ActivityEvent["stance"]): string =>
+    stance === "support"
+      ? "bg-green-500/20 text-green-400 border-green-500/30"
+      : "bg-red-500/20 text-red-400 border-red-500/30";
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardHeader>
+        <CardTitle className="gradient-text flex items-center gap-2">
+          <Zap className="w-5 h-5 text-amber-400" />
+          {t.events.title}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t.events.description}</p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {events.map((event) => (
+            <div key={event.start} className="glass rounded-lg p-4 border border-white/5 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-semibold text-sm">
+                  {formatHours(event.startHours)} – {formatHours(event.endHours)}
+                  <span className="ml-2 font-normal text-muted-foreground">
+                    {t.events.comments
+                      .replace("{count}", String(event.commentCount))
+                      .replace("{expected}", String(Math.round(event.expectedCount)))}
+                  </span>
+                </p>
+                <Badge variant="outline" className={`text-xs ${getStanceColor(event.stance)}`}>
+                  {t.events.shift
+                    .replace("{stance}", event.stance === "support" ? t.charts.positive : t.charts.negative)
+                    .replace("{shift}", formatPercent(event.stanceShift))}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t.events.newAuthors.replace("{share}", formatPercent(event.newAuthorShare))}
+                {" · "}
+                {t.events.similarity.replace("{similarity}", formatPercent(event.textSimilarity))}
+              </p>
+              <div className="space-y-2">
+                {event.representativeComments.map((comment) => (
+                  <div key={comment.id} className="text-sm border-l-2 border-white/10 pl-3">
+                    <p className="line-clamp-2">{comment.text}</p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      {comment.author}
+                      {comment.likeCount > 0 && (
+                        <>
+                          {" · "}
+                          <ThumbsUp className="w-3 h-3" />
+                          {comment.likeCount}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { AnalysisPhase } from "@/types";
+
+interface AnalysisProgressProps {
+  phase: AnalysisPhase;
+  completedBatches: number;
+  totalBatches: number;
+}
+
+export function AnalysisProgress({ phase, completedBatches, totalBatches }: AnalysisProgressProps) {
+  const { t } = useLanguage();
+
+  const getPhaseLabel = (): string => {
+    switch (phase) {
+      case "video":
+        return t.progress.video;
+      case "transcript":
+        return t.progress.transcript;
+      case "summary":
+        return t.progress.summary;
+      case "axisProfile":
+        return t.progress.axisProfile;
+      case "comments":
+        return t.progress.comments;
+      case "cached":
+        return t.progress.cached;
+      case "filtered":
+        return t.progress.filtered;
+      case "batch":
+        return t.progress.batches;
+      default:
+        return t.common.loading;
+    }
+  };
+
+  const percentage = totalBatches > 0 ? Math.round((completedBatches / totalBatches) * 100) : 0;
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin text-purple-400" />
+            <span>{getPhaseLabel()}</span>
+          </div>
+          {totalBatches > 0 && (
+            <span className="text-muted-foreground">
+              {completedBatches} / {totalBatches} ({percentage}%)
+            </span>
+          )}
+        </div>
+        <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-purple-600 to-pink-600 transition-all duration-500"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
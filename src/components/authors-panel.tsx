@@ -0,0 +1,84 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Repeat, Users } from "lucide-react";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { AuthorSummary } from "@/types";
+
+interface AuthorsPanelProps {
+  authors: AuthorSummary[];
+  maxDisplay?: number;
+}
+
+export function AuthorsPanel({ authors, maxDisplay = 10 }: AuthorsPanelProps) {
+  const { t } = useLanguage();
+  const displayAuthors = authors.slice(0, maxDisplay);
+
+  const getStanceColor = (sentiment: number): string => {
+    if (sentiment > 0.2) return "bg-green-500/20 text-green-400 border-green-500/30";
+    if (sentiment < -0.2) return "bg-red-500/20 text-red-400 border-red-500/30";
+    return "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  };
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardHeader>
+        <CardTitle className="gradient-text flex items-center gap-2">
+          <Users className="w-5 h-5 text-purple-400" />
+          {t.authors.title}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t.authors.description}</p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {displayAuthors.map((author) => (
+            <div
+              key={author.authorKey}
+              className="flex items-center justify-between gap-3 glass rounded-lg p-3 border border-white/5"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <div className="w-8 h-8 shrink-0 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center text-white font-semibold text-sm">
+                  {author.author.charAt(0).toUpperCase()}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm truncate">{author.author}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t.authors.comments.replace("{count}", String(author.commentCount))}
+                    {" · "}
+                    <span className="text-green-400">{author.support}</span>
+                    {" / "}
+                    <span className="text-gray-400">{author.neutral}</span>
+                    {" / "}
+                    <span className="text-red-400">{author.oppose}</span>
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {author.isFlipFlopper && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs bg-amber-500/20 text-amber-400 border-amber-500/30"
+                    title={t.authors.flipFlopHint}
+                  >
+                    <Repeat className="w-3 h-3 mr-1" />
+                    {t.authors.flipFlop}
+                  </Badge>
+                )}
+                <Badge
+                  variant="outline"
+                  className={`text-xs tabular-nums ${getStanceColor(author.avgSentiment)}`}
+                  title={t.authors.avgStance}
+                >
+                  {author.avgSentiment > 0 ? "+" : ""}
+                  {author.avgSentiment.toFixed(2)}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
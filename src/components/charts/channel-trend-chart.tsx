@@ -0,0 +1,95 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { ChannelTrendPoint } from "@/types";
+
+interface ChannelTrendChartProps {
+  trend: ChannelTrendPoint[]; // Oldest first
+}
+
+export function ChannelTrendChart({ trend }: ChannelTrendChartProps) {
+  const { t } = useLanguage();
+
+  const data = trend.map((point, i) => ({
+    ...point,
+    index: i + 1,
+    support: Math.round(point.supportShare * 100),
+    oppose: Math.round(point.opposeShare * 100),
+  }));
+
+  type ChartPoint = (typeof data)[number];
+
+  const renderTooltip = ({ active, payload }: { active?: boolean; payload?: ReadonlyArray<{ payload?: ChartPoint }> }) => {
+    const point = payload?.[0]?.payload;
+    if (active && point) {
+      return (
+        <div className="glass-dark p-3 rounded-lg border border-white/10 max-w-xs">
+          <p className="font-semibold text-sm mb-1">{point.title}</p>
+          <p className="text-xs text-muted-foreground mb-1">
+            {new Date(point.publishedAt).toLocaleDateString()} · {point.commentCount} {t.video.comments}
+          </p>
+          <p className="text-sm">
+            <span className="text-green-400">{t.channel.supportShare} {point.support}%</span>
+            {" / "}
+            <span className="text-red-400">{t.channel.opposeShare} {point.oppose}%</span>
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {t.channel.avgSentiment}: {point.avgSentiment > 0 ? "+" : ""}
+            {point.avgSentiment.toFixed(2)}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardHeader>
+        <CardTitle className="gradient-text">{t.channel.trendTitle}</CardTitle>
+        <p className="text-sm text-muted-foreground">{t.channel.trendDescription}</p>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis dataKey="index" stroke="hsl(var(--muted-foreground))" />
+            <YAxis
+              domain={[0, 100]}
+              unit="%"
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <Tooltip content={renderTooltip} />
+            <Legend verticalAlign="top" height={28} />
+            <Line
+              type="monotone"
+              dataKey="support"
+              name={t.channel.supportShare}
+              stroke="hsl(var(--sentiment-positive))"
+              strokeWidth={2}
+            />
+            <Line
+              type="monotone"
+              dataKey="oppose"
+              name={t.channel.opposeShare}
+              stroke="hsl(var(--sentiment-negative))"
+              strokeWidth={2}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
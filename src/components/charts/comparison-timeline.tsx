@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+
+import { useLanguage } from "@/lib/i18n/context";
+import { buildComparisonTimelines } from "@/lib/analysis/compare";
+import type { TimelineGranularity, VideoAnalysis } from "@/types";
+
+// One color per compared video, in order
+export const COMPARISON_COLORS = ["#a855f7", "#ec4899", "#22c55e", "#f59e0b", "#3b82f6", "#14b8a6"];
+
+const GRANULARITIES: TimelineGranularity[] = ["auto", "hour", "day", "week"];
+
+const selectClassName =
+  "h-8 rounded-md border border-input bg-background/50 px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+interface ComparisonTimelineProps {
+  analyses: VideoAnalysis[];
+}
+
+export function ComparisonTimeline({ analyses }: ComparisonTimelineProps) {
+  const { t } = useLanguage();
+  const [granularity, setGranularity] = useState<TimelineGranularity>("auto");
+  const [cumulative, setCumulative] = useState(false);
+
+  const { series } = useMemo(
+    () => buildComparisonTimelines(analyses, granularity, { cumulative }),
+    [analyses, granularity, cumulative]
+  );
+
+  // Empty buckets leave gaps rather than dropping to 0
+  const chartSeries = series.map((s) => ({
+    ...s,
+    points: s.points.map((point) => ({
+      ...point,
+      avgSentiment: point.commentCount > 0 ? point.avgSentiment : null,
+    })),
+  }));
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardHeader>
+        <CardTitle className="gradient-text">{t.compare.timelineTitle}</CardTitle>
+        <p className="text-sm text-muted-foreground">{t.compare.timelineDescription}</p>
+        <div className="flex flex-wrap items-center gap-3 pt-2 text-xs">
+          <select
+            className={selectClassName}
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as TimelineGranularity)}
+            aria-label={t.charts.granularity}
+          >
+            {GRANULARITIES.map((option) => (
+              <option key={option} value={option}>
+                {t.charts.granularities[option]}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={cumulative} onChange={(e) => setCumulative(e.target.checked)} />
+            <span>{t.charts.cumulative}</span>
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={380}>
+          <LineChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis
+              type="number"
+              dataKey="time"
+              domain={[0, "dataMax"]}
+              stroke="hsl(var(--muted-foreground))"
+              label={{
+                value: t.charts.hoursSincePublished,
+                position: "insideBottom",
+                offset: -10,
+                fill: "hsl(var(--muted-foreground))",
+              }}
+            />
+            <YAxis
+              domain={[-1, 1]}
+              stroke="hsl(var(--muted-foreground))"
+              label={{
+                value: t.charts.avgSentiment,
+                angle: -90,
+                position: "insideLeft",
+                fill: "hsl(var(--muted-foreground))",
+              }}
+            />
+            <Tooltip
+              contentStyle={{ background: "hsl(var(--background))", border: "1px solid rgba(255,255,255,0.1)" }}
+              labelFormatter={(hours) => `${hours} ${t.charts.time}`}
+              formatter={(value) => (typeof value === "number" ? value.toFixed(2) : value)}
+            />
+            <Legend verticalAlign="top" height={36} />
+            <ReferenceLine
+              y={0}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="3 3"
+              strokeOpacity={0.5}
+            />
+            {chartSeries.map((s, i) => (
+              <Line
+                key={s.videoId}
+                data={s.points}
+                type="monotone"
+                dataKey="avgSentiment"
+                name={s.title}
+                stroke={COMPARISON_COLORS[i % COMPARISON_COLORS.length]}
+                strokeWidth={2}
+                connectNulls
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
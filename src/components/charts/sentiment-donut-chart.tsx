@@ -4,26 +4,35 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
 
 import { useLanguage } from "@/lib/i18n/context";
+import type { DistributionConfidence, SamplingInfo } from "@/types";
 
 interface SentimentDonutChartProps {
   support: number;
   neutral: number;
   oppose: number;
+  sampling?: SamplingInfo;
+  confidence?: DistributionConfidence;
+  spam?: number; // Comments filtered as spam and left out of the chart
 }
 
 export function SentimentDonutChart({
   support,
   neutral,
   oppose,
+  sampling,
+  confidence,
+  spam,
 }: SentimentDonutChartProps) {
   const { t } = useLanguage();
 
   const data = [
-    { name: t.charts.positive, value: support, color: "hsl(var(--sentiment-positive))" },
-    { name: t.charts.neutral, value: neutral, color: "hsl(var(--sentiment-neutral))" },
-    { name: t.charts.negative, value: oppose, color: "hsl(var(--sentiment-negative))" },
+    { name: t.charts.positive, value: support, color: "hsl(var(--sentiment-positive))", interval: confidence?.support },
+    { name: t.charts.neutral, value: neutral, color: "hsl(var(--sentiment-neutral))", interval: confidence?.neutral },
+    { name: t.charts.negative, value: oppose, color: "hsl(var(--sentiment-negative))", interval: confidence?.oppose },
   ];
 
+  const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
   const COLORS = data.map(item => item.color);
 
   const total = support + neutral + oppose;
@@ -77,6 +86,50 @@ export function SentimentDonutChart({
             />
           </PieChart>
         </ResponsiveContainer>
+        {confidence && total > 0 && (
+          <div className="mt-2 space-y-2">
+            {data.map((item) => item.interval && (
+              <div key={item.name} className="flex items-center gap-3 text-xs">
+                <span className="w-16 shrink-0 text-muted-foreground">{item.name}</span>
+                {/* Error bar: the band is the interval, the tick the point estimate */}
+                <div className="relative h-2 flex-1 rounded-full bg-white/5">
+                  <div
+                    className="absolute inset-y-0 rounded-full opacity-40"
+                    style={{
+                      left: formatShare(item.interval.lower),
+                      width: formatShare(item.interval.upper - item.interval.lower),
+                      backgroundColor: item.color,
+                    }}
+                  />
+                  <div
+                    className="absolute -top-0.5 h-3 w-0.5"
+                    style={{ left: formatShare(item.value / total), backgroundColor: item.color }}
+                  />
+                </div>
+                <span className="w-28 shrink-0 text-right tabular-nums">
+                  {formatShare(item.interval.lower)}–{formatShare(item.interval.upper)}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground text-center">
+              {t.charts.confidenceInterval.replace("{level}", String(Math.round(confidence.level * 100)))}
+            </p>
+          </div>
+        )}
+        {sampling && (
+          <p className="mt-2 text-xs text-muted-foreground text-center">
+            {t.sampling.note
+              .replace("{sampled}", sampling.sampledComments.toLocaleString())
+              .replace("{total}", sampling.totalComments.toLocaleString())
+              .replace("{rate}", (sampling.samplingRate * 100).toFixed(1))
+              .replace("{strategy}", t.sampling.strategies[sampling.strategy])}
+          </p>
+        )}
+        {spam !== undefined && spam > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground text-center">
+            {t.spam.note.replace("{count}", spam.toLocaleString())}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,31 +1,64 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import {
+  AreaChart,
+  Area,
   LineChart,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
+  ReferenceArea,
   ReferenceLine,
+  ErrorBar,
 } from "recharts";
 
 import { useLanguage } from "@/lib/i18n/context";
+import { generateTimeline, hasStance } from "@/lib/analysis/aggregate";
+import type { ActivityEvent, AnalyzedComment, TimelineGranularity } from "@/types";
 
-interface TimelineDataPoint {
-  time: number; // hours since video published
-  avgSentiment: number; // average sentiment in this time window
-  commentCount: number; // number of comments in this window
-}
+type TimelineView = "average" | "breakdown";
+
+const GRANULARITIES: TimelineGranularity[] = ["auto", "hour", "day", "week"];
+
+const selectClassName =
+  "h-8 rounded-md border border-input bg-background/50 px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
 
 interface SentimentTimelineProps {
-  data: TimelineDataPoint[];
+  comments: AnalyzedComment[]; // Bucketed here so granularity can change without a new analysis
+  videoPublishedAt: string;
+  events?: ActivityEvent[]; // Shaded as regions
 }
 
-export function SentimentTimeline({ data }: SentimentTimelineProps) {
+export function SentimentTimeline({ comments, videoPublishedAt, events }: SentimentTimelineProps) {
   const { t } = useLanguage();
+  const [granularity, setGranularity] = useState<TimelineGranularity>("auto");
+  const [cumulative, setCumulative] = useState(false);
+  const [view, setView] = useState<TimelineView>("average");
+
+  const data = useMemo(
+    () => generateTimeline(comments.filter(hasStance), videoPublishedAt, { granularity, cumulative }),
+    [comments, videoPublishedAt, granularity, cumulative]
+  );
+
+  // Empty buckets leave gaps in the averages; ErrorBar takes [below, above]
+  // offsets from the plotted value
+  const chartData = data.map((point) => ({
+    ...point,
+    avgSentiment: point.commentCount > 0 ? point.avgSentiment : null,
+    likeWeightedSentiment: point.commentCount > 0 ? point.likeWeightedSentiment : null,
+    error: point.ciLower !== undefined && point.ciUpper !== undefined
+      ? [point.avgSentiment - point.ciLower, point.ciUpper - point.avgSentiment]
+      : undefined,
+  }));
+
+  const formatHours = (hours: number) => (Number.isInteger(hours) ? String(hours) : hours.toFixed(1));
 
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -33,14 +66,39 @@ export function SentimentTimeline({ data }: SentimentTimelineProps) {
       return (
         <div className="glass-dark p-3 rounded-lg border border-white/10">
           <p className="font-semibold text-sm mb-1">
-            {point.time.toFixed(0)} {t.charts.time}
-          </p>
-          <p className="text-sm mb-1">
-            {t.charts.avgSentiment}: {point.avgSentiment > 0 ? "+" : ""}
-            {point.avgSentiment.toFixed(2)}
+            {formatHours(point.time)}–{formatHours(point.endTime ?? point.time)} {t.charts.time}
           </p>
+          {point.avgSentiment !== null && (
+            <>
+              <p className="text-sm mb-1">
+                {t.charts.avgSentiment}: {point.avgSentiment > 0 ? "+" : ""}
+                {point.avgSentiment.toFixed(2)}
+              </p>
+              {point.likeWeightedSentiment !== null && point.likeWeightedSentiment !== undefined && (
+                <p className="text-sm mb-1">
+                  {t.charts.likeWeighted}: {point.likeWeightedSentiment > 0 ? "+" : ""}
+                  {point.likeWeightedSentiment.toFixed(2)}
+                </p>
+              )}
+            </>
+          )}
+          {point.ciLower !== undefined && point.ciUpper !== undefined && (
+            <p className="text-xs text-muted-foreground mb-1">
+              {t.charts.confidenceInterval.replace("{level}", "95")}: {point.ciLower.toFixed(2)} – {point.ciUpper.toFixed(2)}
+            </p>
+          )}
           <p className="text-sm text-muted-foreground">
             {point.commentCount} {t.video.comments}
+            {point.support !== undefined && (
+              <>
+                {" · "}
+                <span className="text-green-400">{point.support}</span>
+                {" / "}
+                <span className="text-gray-400">{point.neutral}</span>
+                {" / "}
+                <span className="text-red-400">{point.oppose}</span>
+              </>
+            )}
           </p>
         </div>
       );
@@ -48,11 +106,34 @@ export function SentimentTimeline({ data }: SentimentTimelineProps) {
     return null;
   };
 
-  const getLineColor = (value: number) => {
-    if (value > 0) return "hsl(var(--sentiment-positive))";
-    if (value < 0) return "hsl(var(--sentiment-negative))";
-    return "hsl(var(--sentiment-neutral))";
-  };
+  const tooltip = <Tooltip content={<CustomTooltip />} />;
+
+  const xAxis = (
+    <XAxis
+      type="number"
+      dataKey="time"
+      domain={[0, "dataMax"]}
+      stroke="hsl(var(--muted-foreground))"
+      label={{
+        value: t.charts.hoursSincePublished,
+        position: "insideBottom",
+        offset: -10,
+        fill: "hsl(var(--muted-foreground))",
+      }}
+    />
+  );
+
+  const eventAreas = events?.map((event) => (
+    <ReferenceArea
+      key={event.start}
+      x1={event.startHours}
+      x2={event.endHours}
+      fill={event.stance === "support" ? "hsl(var(--sentiment-positive))" : "hsl(var(--sentiment-negative))"}
+      fillOpacity={0.12}
+      ifOverflow="extendDomain"
+      label={{ value: t.events.label, position: "insideTop", fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+    />
+  ));
 
   return (
     <Card className="glass-dark border-white/10">
@@ -61,65 +142,143 @@ export function SentimentTimeline({ data }: SentimentTimelineProps) {
         <p className="text-sm text-muted-foreground">
           {t.common.appSubtitle}
         </p>
+        <div className="flex flex-wrap items-center gap-3 pt-2 text-xs">
+          <div className="flex rounded-md border border-white/10 overflow-hidden">
+            {(["average", "breakdown"] as const).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={view === option ? "secondary" : "ghost"}
+                className="h-8 rounded-none text-xs"
+                onClick={() => setView(option)}
+              >
+                {t.charts.timelineViews[option]}
+              </Button>
+            ))}
+          </div>
+          <select
+            className={selectClassName}
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as TimelineGranularity)}
+            aria-label={t.charts.granularity}
+          >
+            {GRANULARITIES.map((option) => (
+              <option key={option} value={option}>
+                {t.charts.granularities[option]}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={cumulative} onChange={(e) => setCumulative(e.target.checked)} />
+            <span>{t.charts.cumulative}</span>
+          </label>
+        </div>
       </CardHeader>
       <CardContent>
         <ResponsiveContainer width="100%" height={350}>
-          <LineChart
-            data={data}
-            margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
-          >
-            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
-            <XAxis
-              dataKey="time"
-              stroke="hsl(var(--muted-foreground))"
-              label={{
-                value: t.charts.hoursSincePublished,
-                position: "insideBottom",
-                offset: -10,
-                fill: "hsl(var(--muted-foreground))",
-              }}
-            />
-            <YAxis
-              domain={[-1, 1]}
-              stroke="hsl(var(--muted-foreground))"
-              label={{
-                value: t.charts.avgSentiment,
-                angle: -90,
-                position: "insideLeft",
-                fill: "hsl(var(--muted-foreground))",
-              }}
-            />
-            <Tooltip content={<CustomTooltip />} />
-            <ReferenceLine
-              y={0}
-              stroke="hsl(var(--muted-foreground))"
-              strokeDasharray="3 3"
-              strokeOpacity={0.5}
-            />
-            <Line
-              type="monotone"
-              dataKey="avgSentiment"
-              stroke="url(#sentimentGradient)"
-              strokeWidth={3}
-              dot={{
-                fill: "hsl(var(--sentiment-positive))",
-                r: 4,
-                strokeWidth: 2,
-                stroke: "hsl(var(--background))",
-              }}
-              activeDot={{
-                r: 6,
-                strokeWidth: 2,
-              }}
-            />
-            <defs>
-              <linearGradient id="sentimentGradient" x1="0" y1="0" x2="1" y2="0">
-                <stop offset="0%" stopColor="hsl(var(--sentiment-positive))" />
-                <stop offset="50%" stopColor="hsl(var(--sentiment-neutral))" />
-                <stop offset="100%" stopColor="hsl(var(--sentiment-negative))" />
-              </linearGradient>
-            </defs>
-          </LineChart>
+          {view === "average" ? (
+            <LineChart
+              data={chartData}
+              margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              {xAxis}
+              <YAxis
+                domain={[-1, 1]}
+                stroke="hsl(var(--muted-foreground))"
+                label={{
+                  value: t.charts.avgSentiment,
+                  angle: -90,
+                  position: "insideLeft",
+                  fill: "hsl(var(--muted-foreground))",
+                }}
+              />
+              {tooltip}
+              <Legend verticalAlign="top" height={28} />
+              {eventAreas}
+              <ReferenceLine
+                y={0}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="3 3"
+                strokeOpacity={0.5}
+              />
+              <Line
+                type="monotone"
+                dataKey="avgSentiment"
+                name={t.charts.avgSentiment}
+                stroke="url(#sentimentGradient)"
+                strokeWidth={3}
+                connectNulls
+                dot={{
+                  fill: "hsl(var(--sentiment-positive))",
+                  r: 4,
+                  strokeWidth: 2,
+                  stroke: "hsl(var(--background))",
+                }}
+                activeDot={{
+                  r: 6,
+                  strokeWidth: 2,
+                }}
+              >
+                <ErrorBar dataKey="error" width={4} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.6} />
+              </Line>
+              <Line
+                type="monotone"
+                dataKey="likeWeightedSentiment"
+                name={t.charts.likeWeighted}
+                stroke="hsl(var(--muted-foreground))"
+                strokeWidth={2}
+                strokeDasharray="5 4"
+                connectNulls
+                dot={false}
+              />
+              <defs>
+                <linearGradient id="sentimentGradient" x1="0" y1="0" x2="1" y2="0">
+                  <stop offset="0%" stopColor="hsl(var(--sentiment-positive))" />
+                  <stop offset="50%" stopColor="hsl(var(--sentiment-neutral))" />
+                  <stop offset="100%" stopColor="hsl(var(--sentiment-negative))" />
+                </linearGradient>
+              </defs>
+            </LineChart>
+          ) : (
+            <AreaChart
+              data={chartData}
+              margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              {xAxis}
+              <YAxis
+                allowDecimals={false}
+                stroke="hsl(var(--muted-foreground))"
+                label={{
+                  value: t.charts.commentCount,
+                  angle: -90,
+                  position: "insideLeft",
+                  fill: "hsl(var(--muted-foreground))",
+                }}
+              />
+              {tooltip}
+              <Legend verticalAlign="top" height={28} />
+              {eventAreas}
+              {([
+                ["support", t.charts.positive, "hsl(var(--sentiment-positive))"],
+                ["neutral", t.charts.neutral, "hsl(var(--sentiment-neutral))"],
+                ["oppose", t.charts.negative, "hsl(var(--sentiment-negative))"],
+              ] as const).map(([key, name, color]) => (
+                <Area
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={name}
+                  stackId="stance"
+                  stroke={color}
+                  fill={color}
+                  fillOpacity={0.5}
+                />
+              ))}
+            </AreaChart>
+          )}
         </ResponsiveContainer>
       </CardContent>
     </Card>
@@ -9,10 +9,12 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  ReferenceArea,
   ZAxis,
 } from "recharts";
 
 import { useLanguage } from "@/lib/i18n/context";
+import type { ActivityEvent } from "@/types";
 
 interface CommentDataPoint {
   time: number; // hours since video published
@@ -23,9 +25,10 @@ interface CommentDataPoint {
 
 interface TimeScatterPlotProps {
   data: CommentDataPoint[];
+  events?: ActivityEvent[]; // Shaded as regions
 }
 
-export function TimeScatterPlot({ data }: TimeScatterPlotProps) {
+export function TimeScatterPlot({ data, events }: TimeScatterPlotProps) {
   const { t } = useLanguage();
 
   const CustomTooltip = ({ active, payload }: any) => {
@@ -97,6 +100,17 @@ export function TimeScatterPlot({ data }: TimeScatterPlotProps) {
             />
             <ZAxis type="number" dataKey="likeCount" range={[50, 400]} />
             <Tooltip content={<CustomTooltip />} />
+            {events?.map((event) => (
+              <ReferenceArea
+                key={event.start}
+                x1={event.startHours}
+                x2={event.endHours}
+                fill={event.stance === "support" ? "hsl(var(--sentiment-positive))" : "hsl(var(--sentiment-negative))"}
+                fillOpacity={0.12}
+                ifOverflow="extendDomain"
+                label={{ value: t.events.label, position: "insideTop", fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+              />
+            ))}
             <Scatter
               data={data}
               fill="hsl(var(--sentiment-positive))"
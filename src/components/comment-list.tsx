@@ -2,10 +2,10 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ThumbsUp, AlertCircle, Smile, Frown, Meh, HelpCircle, Target } from "lucide-react";
+import { ThumbsUp, AlertCircle, Smile, Frown, Meh, HelpCircle, Target, Ban } from "lucide-react";
 
 import { useLanguage } from "@/lib/i18n/context";
-import type { StanceLabel } from "@/types";
+import type { SpamReason, StanceLabel } from "@/types";
 
 interface Comment {
   id: string;
@@ -21,6 +21,8 @@ interface Comment {
   confidence?: number;
   axisEvidence?: string;
   replyRelation?: string;
+  analysisError?: string;
+  spamReason?: SpamReason;
 }
 
 interface CommentListProps {
@@ -139,14 +141,24 @@ export function CommentList({ comments, maxDisplay = 10 }: CommentListProps) {
                   </div>
                 </div>
                 <div className="flex items-center gap-2 flex-wrap justify-end">
-                  {/* Show stance label if available (Axis-based analysis) */}
-                  {comment.label ? (
+                  {/* Spam was never analyzed, so it has no stance to show */}
+                  {comment.spamReason ? (
+                    <Badge
+                      variant="outline"
+                      className="bg-gray-600/20 text-gray-500 border-gray-600/30 text-xs"
+                      title={t.spam.reasons[comment.spamReason]}
+                    >
+                      <Ban className="w-3 h-3 mr-1" />
+                      {t.spam.label}
+                    </Badge>
+                  ) : comment.label ? (
+                    /* Show stance label if available (Axis-based analysis) */
                     <>
                       {getStanceIcon(comment.label)}
                       <Badge
                         variant="outline"
                         className={`${getStanceColor(comment.label)} text-xs`}
-                        title={comment.axisEvidence || "Stance toward video's main axis"}
+                        title={comment.analysisError || comment.axisEvidence || "Stance toward video's main axis"}
                       >
                         {getStanceLabel(comment.label)}
                         {comment.confidence && (
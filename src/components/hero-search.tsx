@@ -1,26 +1,102 @@
 "use client";
 
 import { useState } from "react";
-import { Search } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { ChevronDown, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
 
 import { useLanguage } from "@/lib/i18n/context";
+import { SAMPLING_STRATEGY_NAMES } from "@/lib/analysis/sampling";
+import type { AnalysisOptions, CostEstimate } from "@/types";
 
 interface HeroSearchProps {
-  onSearch?: (url: string) => void;
+  onSearch?: (url: string, options: AnalysisOptions) => void;
   isLoading?: boolean;
 }
 
+const PROVIDERS: NonNullable<AnalysisOptions["provider"]>[] = ["openai", "groq", "gemini", "openai-compatible"];
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background/50 px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
 export function HeroSearch({ onSearch, isLoading = false }: HeroSearchProps) {
   const [url, setUrl] = useState("");
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [options, setOptions] = useState<AnalysisOptions>({});
+  const [showOptions, setShowOptions] = useState(false);
   const { t } = useLanguage();
+  const router = useRouter();
+
+  // Empty inputs mean "use the server default"
+  const updateOption = <K extends keyof AnalysisOptions>(key: K, value: AnalysisOptions[K] | "") => {
+    setOptions((prev) => ({ ...prev, [key]: value === "" ? undefined : value }));
+    setEstimate(null);
+  };
+
+  const parseCount = (value: string): number | "" => {
+    const parsed = parseInt(value, 10);
+    return Number.isNaN(parsed) ? "" : parsed;
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!url.trim() || isLoading) return;
+    if (!url.trim() || isLoading || isEstimating) return;
+
+    setIsEstimating(true);
+    try {
+      const response = await fetch("/api/analyze/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, ...options }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.playlistId) {
+          // Playlists are analyzed as a batch on their own page
+          router.push(`/playlist?url=${encodeURIComponent(url)}`);
+          return;
+        }
+        if (response.status < 500) {
+          // The analysis would be rejected the same way
+          toast.error(data.error || t.common.error);
+          return;
+        }
+        throw new Error(data.error || t.common.error);
+      }
+
+      // A stored analysis is reused for free; no need to confirm
+      if ((data as CostEstimate).stored) {
+        onSearch?.(url, options);
+      } else {
+        setEstimate(data);
+      }
+    } catch (err) {
+      // Network and server errors: the estimate is advisory, so run the
+      // analysis and let it report real errors
+      console.warn("Estimate failed:", err);
+      onSearch?.(url, options);
+    } finally {
+      setIsEstimating(false);
+    }
+  };
 
-    onSearch?.(url);
+  const handleConfirm = () => {
+    setEstimate(null);
+    onSearch?.(url, options);
+  };
+
+  const formatCost = (usd: number | null): string => {
+    if (usd === null) return t.estimate.unknownCost;
+    return `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+  };
+
+  const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `~${seconds}s` : `~${Math.round(seconds / 60)}min`;
   };
 
   return (
@@ -41,7 +117,10 @@ export function HeroSearch({ onSearch, isLoading = false }: HeroSearchProps) {
               type="text"
               placeholder={t.common.placeholder}
               value={url}
-              onChange={(e) => setUrl(e.target.value)}
+              onChange={(e) => {
+                setUrl(e.target.value);
+                setEstimate(null);
+              }}
               className="h-12 text-lg bg-background/50 backdrop-blur-sm"
               disabled={isLoading}
             />
@@ -50,18 +129,183 @@ export function HeroSearch({ onSearch, isLoading = false }: HeroSearchProps) {
             type="submit"
             size="lg"
             className="h-12 px-8 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 font-bold"
-            disabled={isLoading || !url.trim()}
+            disabled={isLoading || isEstimating || !url.trim()}
           >
             <Search className="mr-2 h-5 w-5" />
-            {isLoading ? t.common.loading : t.common.search}
+            {isLoading ? t.common.loading : isEstimating ? t.estimate.estimating : t.common.search}
           </Button>
         </div>
 
+        <button
+          type="button"
+          onClick={() => setShowOptions((open) => !open)}
+          className="mt-4 flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          aria-expanded={showOptions}
+        >
+          <ChevronDown className={`h-4 w-4 transition-transform ${showOptions ? "rotate-180" : ""}`} />
+          {t.options.title}
+        </button>
+
+        {showOptions && (
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.mode}</span>
+              <select
+                className={selectClassName}
+                value={options.mode ?? ""}
+                onChange={(e) => updateOption("mode", e.target.value as AnalysisOptions["mode"] | "")}
+                disabled={isLoading}
+              >
+                <option value="">{t.options.serverDefault}</option>
+                <option value="axis">{t.options.modeAxis}</option>
+                <option value="legacy">{t.options.modeLegacy}</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.maxComments}</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder={t.options.serverDefault}
+                value={options.maxComments ?? ""}
+                onChange={(e) => updateOption("maxComments", parseCount(e.target.value))}
+                className="h-9 bg-background/50"
+                disabled={isLoading}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.richTier}</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder={t.options.serverDefault}
+                value={options.richTierThreshold ?? ""}
+                onChange={(e) => updateOption("richTierThreshold", parseCount(e.target.value))}
+                className="h-9 bg-background/50"
+                disabled={isLoading}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.provider}</span>
+              <select
+                className={selectClassName}
+                value={options.provider ?? ""}
+                onChange={(e) => updateOption("provider", e.target.value as AnalysisOptions["provider"] | "")}
+                disabled={isLoading}
+              >
+                <option value="">{t.options.serverDefault}</option>
+                {PROVIDERS.map((provider) => (
+                  <option key={provider} value={provider}>{provider}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.order}</span>
+              <select
+                className={selectClassName}
+                value={options.order ?? ""}
+                onChange={(e) => updateOption("order", e.target.value as AnalysisOptions["order"] | "")}
+                disabled={isLoading}
+              >
+                <option value="">{t.options.serverDefault}</option>
+                <option value="relevance">{t.options.orderRelevance}</option>
+                <option value="time">{t.options.orderTime}</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.language}</span>
+              <select
+                className={selectClassName}
+                value={options.language ?? ""}
+                onChange={(e) => updateOption("language", e.target.value as AnalysisOptions["language"] | "")}
+                disabled={isLoading}
+              >
+                <option value="">{t.options.serverDefault}</option>
+                <option value="en">English</option>
+                <option value="ja">日本語</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">{t.options.sampling}</span>
+              <select
+                className={selectClassName}
+                value={options.sampling ?? ""}
+                onChange={(e) => updateOption("sampling", e.target.value as AnalysisOptions["sampling"] | "")}
+                disabled={isLoading}
+              >
+                <option value="">{t.options.serverDefault}</option>
+                {SAMPLING_STRATEGY_NAMES.map((strategy) => (
+                  <option key={strategy} value={strategy}>{t.sampling.strategies[strategy]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.includeReplies ?? true}
+                onChange={(e) => updateOption("includeReplies", e.target.checked)}
+                disabled={isLoading}
+              />
+              <span>{t.options.includeReplies}</span>
+            </label>
+          </div>
+        )}
+
+        {estimate && (
+          <div className="mt-4 rounded-xl border border-white/10 bg-background/40 p-4 space-y-3">
+            <p className="font-semibold">{t.estimate.title}</p>
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground text-xs">{t.estimate.comments}</dt>
+                <dd>
+                  {estimate.sampledComments.toLocaleString()}
+                  <span className="text-muted-foreground text-xs ml-1">
+                    ({estimate.richComments} {t.estimate.rich} / {estimate.liteComments} {t.estimate.lite})
+                  </span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground text-xs">{t.estimate.batches}</dt>
+                <dd>{estimate.batches}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground text-xs">{t.estimate.tokens}</dt>
+                <dd>{estimate.totalTokens.toLocaleString()}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground text-xs">{t.estimate.cost}</dt>
+                <dd className="font-bold">{formatCost(estimate.estimatedCostUsd)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground text-xs">{t.estimate.duration}</dt>
+                <dd>{formatDuration(estimate.estimatedDurationMs)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground text-xs">{t.estimate.model}</dt>
+                <dd className="truncate" title={estimate.model}>{estimate.model}</dd>
+              </div>
+            </dl>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEstimate(null)}>
+                {t.estimate.cancel}
+              </Button>
+              <Button
+                type="button"
+                onClick={handleConfirm}
+                className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+              >
+                {t.estimate.confirm}
+              </Button>
+            </div>
+          </div>
+        )}
+
         <div className="mt-4 text-sm text-muted-foreground">
           <p>Supported formats:</p>
           <ul className="list-disc list-inside mt-2 space-y-1">
             <li>https://www.youtube.com/watch?v=VIDEO_ID</li>
             <li>https://youtu.be/VIDEO_ID</li>
+            <li>https://www.youtube.com/playlist?list=PLAYLIST_ID</li>
           </ul>
         </div>
       </form>
@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { QuotaUsage } from "@/lib/youtube/quota";
+
+interface QuotaIndicatorProps {
+  refreshKey?: number; // Change to re-fetch usage (e.g. after an analysis)
+}
+
+export function QuotaIndicator({ refreshKey }: QuotaIndicatorProps) {
+  const { t } = useLanguage();
+  const [usage, setUsage] = useState<QuotaUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/quota")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: QuotaUsage | null) => {
+        if (!cancelled) setUsage(data);
+      })
+      .catch(() => {
+        // Usage display is best-effort
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!usage) return null;
+
+  const percentage = usage.budget > 0 ? Math.min(100, Math.round((usage.used / usage.budget) * 100)) : 100;
+  const barColor = percentage >= 90 ? "bg-red-500" : percentage >= 70 ? "bg-yellow-500" : "bg-green-500";
+
+  return (
+    <div className="flex items-center justify-center gap-3 text-xs text-muted-foreground">
+      <Gauge className="w-4 h-4" />
+      <span>{t.quota.usage}</span>
+      <div className="h-1.5 w-32 rounded-full bg-white/10 overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percentage}%` }} />
+      </div>
+      <span>
+        {usage.used.toLocaleString()} / {usage.budget.toLocaleString()}
+      </span>
+    </div>
+  );
+}
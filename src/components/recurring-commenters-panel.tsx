@@ -0,0 +1,71 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { RecurringCommenter } from "@/types";
+
+interface RecurringCommentersPanelProps {
+  commenters: RecurringCommenter[];
+}
+
+/**
+ * Authors seen on several videos of a channel or playlist report
+ */
+export function RecurringCommentersPanel({ commenters }: RecurringCommentersPanelProps) {
+  const { t } = useLanguage();
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardHeader>
+        <CardTitle className="gradient-text">{t.recurring.title}</CardTitle>
+        <p className="text-sm text-muted-foreground">{t.recurring.description}</p>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {commenters.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.recurring.none}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr className="border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">{t.recurring.author}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t.recurring.videos}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t.video.comments}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t.recurring.avgSentiment}</th>
+                <th className="py-2 font-medium text-right">
+                  {t.charts.positive} / {t.charts.neutral} / {t.charts.negative}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {commenters.map((commenter) => (
+                <tr key={commenter.authorKey} className="border-b border-white/5">
+                  <td className="py-2 pr-4">
+                    {commenter.author}
+                    {commenter.support > 0 && commenter.oppose > 0 && (
+                      <Badge variant="outline" className="ml-2 text-xs">±</Badge>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right tabular-nums">{commenter.videoCount}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums">{commenter.commentCount}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums">
+                    {commenter.avgSentiment > 0 ? "+" : ""}
+                    {commenter.avgSentiment.toFixed(2)}
+                  </td>
+                  <td className="py-2 text-right tabular-nums whitespace-nowrap">
+                    <span className="text-green-400">{commenter.support}</span>
+                    {" / "}
+                    <span className="text-gray-400">{commenter.neutral}</span>
+                    {" / "}
+                    <span className="text-red-400">{commenter.oppose}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
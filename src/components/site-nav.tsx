@@ -0,0 +1,34 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useLanguage } from "@/lib/i18n/context";
+import { Button } from "./ui/button";
+
+export function SiteNav() {
+    const { t } = useLanguage();
+    const pathname = usePathname();
+
+    const links = [
+        { href: "/", label: t.nav.analyze },
+        { href: "/compare", label: t.nav.compare },
+        { href: "/channel", label: t.nav.channel },
+        { href: "/playlist", label: t.nav.playlist },
+    ];
+
+    return (
+        <nav className="flex items-center gap-1">
+            {links.map((link) => (
+                <Button
+                    key={link.href}
+                    asChild
+                    variant="ghost"
+                    size="sm"
+                    className={pathname === link.href ? "text-primary" : "text-muted-foreground"}
+                >
+                    <Link href={link.href}>{link.label}</Link>
+                </Button>
+            ))}
+        </nav>
+    );
+}
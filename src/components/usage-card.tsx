@@ -0,0 +1,81 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Coins } from "lucide-react";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { AnalysisUsage, UsagePhase } from "@/types";
+
+interface UsageCardProps {
+  usage: AnalysisUsage;
+}
+
+const PHASE_ORDER: UsagePhase[] = ["summary", "axisProfile", "embeddings", "richBatches", "liteBatches"];
+
+export function UsageCard({ usage }: UsageCardProps) {
+  const { t } = useLanguage();
+
+  const formatCost = (usd: number): string => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+  const phases = PHASE_ORDER.filter((phase) => usage.phases[phase]);
+
+  return (
+    <Card className="glass-dark border-white/10">
+      <CardHeader>
+        <CardTitle className="gradient-text flex items-center gap-2">
+          <Coins className="w-5 h-5 text-purple-400" />
+          {t.usage.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold">{usage.total.totalTokens.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{t.usage.tokens}</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{formatCost(usage.total.estimatedCostUsd)}</p>
+            <p className="text-xs text-muted-foreground">{t.usage.cost}</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{usage.total.calls}</p>
+            <p className="text-xs text-muted-foreground">{t.usage.calls}</p>
+          </div>
+        </div>
+
+        {phases.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-xs border-b border-white/10">
+                <th className="text-left py-2 font-normal">{t.usage.phase}</th>
+                <th className="text-right py-2 font-normal">{t.usage.calls}</th>
+                <th className="text-right py-2 font-normal">{t.usage.tokens}</th>
+                <th className="text-right py-2 font-normal">{t.usage.cost}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {phases.map((phase) => {
+                const phaseUsage = usage.phases[phase]!;
+                return (
+                  <tr key={phase} className="border-b border-white/5">
+                    <td className="py-2">{t.usage.phases[phase]}</td>
+                    <td className="text-right py-2">{phaseUsage.calls}</td>
+                    <td className="text-right py-2">{phaseUsage.totalTokens.toLocaleString()}</td>
+                    <td className="text-right py-2">{formatCost(phaseUsage.estimatedCostUsd)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {usage.models.join(", ")}
+          {usage.unpricedModels.length > 0 && (
+            <> · {t.usage.unpriced}: {usage.unpricedModels.join(", ")}</>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
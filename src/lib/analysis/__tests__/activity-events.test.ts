@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { detectActivityEvents } from "../activity-events";
+import { generateMockAnalyzedComment } from "@/lib/mock-data/generators";
+import type { AnalyzedComment } from "@/types";
+
+const PUBLISHED = Date.UTC(2024, 0, 1);
+const PUBLISHED_AT = new Date(PUBLISHED).toISOString();
+const MINUTE = 60_000;
+
+let nextId = 0;
+
+function comment(minute: number, sentiment: number, text = `organic comment ${nextId}`): AnalyzedComment {
+  const id = `c${nextId++}`;
+  return generateMockAnalyzedComment("v1", {
+    id,
+    author: `author-${id}`,
+    authorChannelId: `UC-${id}`,
+    text,
+    sentiment,
+    likeCount: nextId,
+    publishedAt: new Date(PUBLISHED + minute * MINUTE).toISOString(),
+  });
+}
+
+/**
+ * 24 hours of steady, mostly supportive comments: 4 per half hour
+ */
+function steadyStream(): AnalyzedComment[] {
+  return Array.from({ length: 48 * 4 }, (_, i) => comment(i * 7.5, i % 4 === 0 ? 0 : 0.6));
+}
+
+describe("detectActivityEvents", () => {
+  it("finds a wave of opposing comments and its time span", () => {
+    const wave = Array.from({ length: 30 }, (_, i) =>
+      comment(20 * 60 + i, -0.8, `This video is a lie, everyone report it now #${i}`)
+    );
+
+    const events = detectActivityEvents([...steadyStream(), ...wave], PUBLISHED_AT);
+
+    expect(events).toHaveLength(1);
+    const [event] = events;
+    expect(event.stance).toBe("oppose");
+    expect(event.startHours).toBeLessThanOrEqual(20);
+    expect(event.endHours).toBeGreaterThan(20.25);
+    expect(event.endHours - event.startHours).toBeLessThanOrEqual(1.5);
+    expect(event.commentCount).toBeGreaterThanOrEqual(30);
+    expect(event.expectedCount).toBeLessThan(10);
+    expect(event.stanceShift).toBeGreaterThan(0.5);
+    expect(event.newAuthorShare).toBe(1);
+    expect(event.textSimilarity).toBeGreaterThan(0.5);
+    expect(event.representativeComments).toHaveLength(3);
+    expect(event.representativeComments.every((c) => c.sentiment < 0)).toBe(true);
+  });
+
+  it("ignores steady activity", () => {
+    expect(detectActivityEvents(steadyStream(), PUBLISHED_AT)).toEqual([]);
+  });
+
+  it("ignores a surge that does not shift the stance", () => {
+    const surge = Array.from({ length: 30 }, (_, i) => comment(20 * 60 + i, i % 4 === 0 ? 0 : 0.6));
+
+    expect(detectActivityEvents([...steadyStream(), ...surge], PUBLISHED_AT)).toEqual([]);
+  });
+});
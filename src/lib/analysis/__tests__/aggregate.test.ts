@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { MAX_TIMELINE_BUCKETS, generateTimeline, resolveTimelineGranularity } from "../aggregate";
+import { generateMockAnalyzedComment } from "@/lib/mock-data/generators";
+import type { AnalyzedComment } from "@/types";
+
+const PUBLISHED = Date.UTC(2024, 0, 1);
+const PUBLISHED_AT = new Date(PUBLISHED).toISOString();
+const HOUR = 60 * 60 * 1000;
+
+function comment(hours: number, sentiment: number, likeCount = 0): AnalyzedComment {
+  return generateMockAnalyzedComment("v1", {
+    sentiment,
+    likeCount,
+    publishedAt: new Date(PUBLISHED + hours * HOUR).toISOString(),
+  });
+}
+
+describe("generateTimeline", () => {
+  const comments = [
+    comment(0.5, 0.8, 9),
+    comment(0.7, -0.6, 0),
+    comment(2.2, -0.4),
+    comment(2.9, 0),
+  ];
+
+  it("puts each comment in exactly one bucket", () => {
+    const timeline = generateTimeline(comments, PUBLISHED_AT, { granularity: "hour" });
+
+    expect(timeline.map((p) => [p.time, p.endTime, p.commentCount])).toEqual([
+      [0, 1, 2],
+      [1, 2, 0],
+      [2, 3, 2],
+    ]);
+    expect(timeline[0]).toMatchObject({ support: 1, neutral: 0, oppose: 1 });
+    expect(timeline[0].avgSentiment).toBeCloseTo(0.1, 5);
+    // Weights 10 and 1
+    expect(timeline[0].likeWeightedSentiment).toBeCloseTo((0.8 * 10 - 0.6) / 11, 5);
+    expect(timeline[1]).toMatchObject({ avgSentiment: 0, ciLower: undefined });
+    expect(timeline[2]).toMatchObject({ support: 0, neutral: 1, oppose: 1 });
+  });
+
+  it("accumulates buckets when cumulative", () => {
+    const timeline = generateTimeline(comments, PUBLISHED_AT, { granularity: "hour", cumulative: true });
+
+    expect(timeline.map((p) => p.commentCount)).toEqual([2, 2, 4]);
+    expect(timeline[2]).toMatchObject({ support: 1, neutral: 1, oppose: 2 });
+    expect(timeline[2].avgSentiment).toBeCloseTo(-0.05, 5);
+  });
+
+  it("ends at the newest comment, not the current time", () => {
+    const timeline = generateTimeline([comment(30, 0.5)], PUBLISHED_AT, { granularity: "day" });
+
+    expect(timeline).toHaveLength(2);
+    expect(timeline[1]).toMatchObject({ time: 24, endTime: 48, commentCount: 1 });
+  });
+
+  it("falls back to coarser buckets when a span would need too many", () => {
+    const year = 24 * 365;
+    const hourly = generateTimeline([comment(0, 0.5), comment(year, 0.5)], PUBLISHED_AT, { granularity: "hour" });
+
+    expect(hourly.length).toBeLessThanOrEqual(MAX_TIMELINE_BUCKETS);
+    expect(hourly[0].endTime).toBe(24);
+
+    // Decades of comments widen buckets beyond a week
+    const decades = generateTimeline([comment(0, 0.5), comment(30 * year, 0.5)], PUBLISHED_AT, { granularity: "week" });
+
+    expect(decades.length).toBeLessThanOrEqual(MAX_TIMELINE_BUCKETS);
+    expect(decades[0].endTime! % (24 * 7)).toBe(0);
+    expect(decades.reduce((sum, p) => sum + p.commentCount, 0)).toBe(2);
+  });
+
+  it("returns no points without comments", () => {
+    expect(generateTimeline([], PUBLISHED_AT)).toEqual([]);
+  });
+});
+
+describe("resolveTimelineGranularity", () => {
+  it("widens buckets as comments span more time", () => {
+    expect(resolveTimelineGranularity([comment(48, 0)], PUBLISHED_AT)).toBe("hour");
+    expect(resolveTimelineGranularity([comment(24 * 30, 0)], PUBLISHED_AT)).toBe("day");
+    expect(resolveTimelineGranularity([comment(24 * 200, 0)], PUBLISHED_AT)).toBe("week");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { aggregateAuthors, markRepeatUsers } from "../authors";
+import { buildVideoAnalysis } from "../aggregate";
+import { generateMockAnalyzedComment, generateMockVideo } from "@/lib/mock-data/generators";
+import type { AnalyzedComment } from "@/types";
+
+function comment(id: string, channelId: string, sentiment: number, hour: number): AnalyzedComment {
+  return generateMockAnalyzedComment("v1", {
+    id,
+    author: `name-${channelId}`,
+    authorChannelId: channelId,
+    sentiment,
+    likeCount: 1,
+    isRepeatUser: false,
+    publishedAt: new Date(Date.UTC(2024, 0, 1, hour)).toISOString(),
+  });
+}
+
+describe("markRepeatUsers", () => {
+  it("flags every comment after an author's first", () => {
+    const marked = markRepeatUsers([
+      comment("late", "UC1", 0.5, 3),
+      comment("first", "UC1", 0.5, 1),
+      comment("solo", "UC2", 0.5, 2),
+    ]);
+
+    expect(marked.map((c) => [c.id, c.isRepeatUser])).toEqual([
+      ["late", true],
+      ["first", false],
+      ["solo", false],
+    ]);
+  });
+
+  it("keys authors by channel ID rather than display name", () => {
+    const a = comment("a", "UC1", 0, 1);
+    const b = { ...comment("b", "UC2", 0, 2), author: a.author };
+
+    expect(markRepeatUsers([a, b]).some((c) => c.isRepeatUser)).toBe(false);
+  });
+});
+
+describe("aggregateAuthors", () => {
+  it("summarizes prolific authors and detects flip-flopping", () => {
+    const authors = aggregateAuthors([
+      comment("a1", "UC1", 0.8, 1),
+      comment("a2", "UC1", -0.6, 2),
+      comment("a3", "UC1", 0.1, 3),
+      comment("b1", "UC2", 0.5, 1),
+      comment("b2", "UC2", 0.7, 2),
+      comment("c1", "UC3", 0.9, 1),
+    ]);
+
+    expect(authors).toHaveLength(2);
+    expect(authors[0]).toMatchObject({
+      authorKey: "UC1",
+      commentCount: 3,
+      support: 1,
+      neutral: 1,
+      oppose: 1,
+      isFlipFlopper: true,
+    });
+    expect(authors[0].avgSentiment).toBeCloseTo(0.1, 5);
+    expect(authors[1]).toMatchObject({ authorKey: "UC2", commentCount: 2, isFlipFlopper: false });
+  });
+});
+
+describe("buildVideoAnalysis", () => {
+  it("down-weights repeat comments in the distribution", () => {
+    // One author posts three supporting comments; two others oppose once each
+    const analysis = buildVideoAnalysis(generateMockVideo(), [
+      comment("a1", "UC1", 0.8, 1),
+      comment("a2", "UC1", 0.8, 2),
+      comment("a3", "UC1", 0.8, 3),
+      comment("b1", "UC2", -0.8, 1),
+      comment("c1", "UC3", -0.8, 1),
+    ]);
+
+    // Weights: support 1 + 0.5 + 0.5 = 2, oppose 2, scaled to 5 comments
+    expect(analysis.distribution.support).toBe(analysis.distribution.oppose);
+    expect(analysis.authors?.map((a) => a.authorKey)).toEqual(["UC1"]);
+  });
+
+  it("ignores spam and failed comments when picking an author's first comment", () => {
+    const spam = { ...comment("a1", "UC1", 0, 1), spamReason: "duplicate" as const };
+    const failed = { ...comment("a2", "UC1", 0, 2), analysisError: "Unparseable output" };
+
+    const analysis = buildVideoAnalysis(generateMockVideo(), [spam, failed, comment("a3", "UC1", 0.8, 3)]);
+
+    expect(analysis.comments.find((c) => c.id === "a3")?.isRepeatUser).toBe(false);
+    expect(analysis.comments.map((c) => c.id)).toEqual(["a1", "a2", "a3"]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildChannelReport, findRecurringCommenters } from "../channel-report";
+import { buildVideoAnalysis } from "../aggregate";
+import { generateMockAnalyzedComment, generateMockVideo } from "@/lib/mock-data/generators";
+import type { YouTubeChannel } from "@/types";
+
+const channel: YouTubeChannel = {
+  id: "UC123",
+  title: "Creator",
+  thumbnailUrl: "",
+  videoCount: 3,
+  uploadsPlaylistId: "UU123",
+};
+
+function analysisOf(id: string, publishedAt: string, comments: Array<{ author: string; sentiment: number }>) {
+  return buildVideoAnalysis(
+    generateMockVideo({ id, title: `Video ${id}`, publishedAt }),
+    comments.map(({ author, sentiment }) =>
+      generateMockAnalyzedComment(id, { author, authorChannelId: `channel-${author}`, sentiment })
+    )
+  );
+}
+
+describe("buildChannelReport", () => {
+  // Channel order: newest first
+  const analyses = [
+    analysisOf("c", "2024-03-01T00:00:00Z", [
+      { author: "alice", sentiment: -0.8 },
+      { author: "bob", sentiment: -0.6 },
+    ]),
+    analysisOf("b", "2024-02-01T00:00:00Z", [
+      { author: "alice", sentiment: 0.1 },
+      { author: "carol", sentiment: 0.5 },
+    ]),
+    analysisOf("a", "2024-01-01T00:00:00Z", [
+      { author: "alice", sentiment: 0.8 },
+      { author: "bob", sentiment: 0.6 },
+      { author: "dave", sentiment: 0.4 },
+    ]),
+  ];
+
+  it("orders the trend oldest first", () => {
+    const report = buildChannelReport(channel, analyses, { commentsPerVideo: 100 });
+
+    expect(report.videos.map((v) => v.videoId)).toEqual(["c", "b", "a"]);
+    expect(report.trend.map((p) => p.videoId)).toEqual(["a", "b", "c"]);
+    expect(report.trend[0]).toMatchObject({ supportShare: 1, opposeShare: 0, commentCount: 3 });
+    expect(report.trend[2].avgSentiment).toBeCloseTo(-0.7);
+  });
+
+  it("lists authors seen on two or more videos", () => {
+    const commenters = findRecurringCommenters(analyses);
+
+    expect(commenters.map((c) => c.author)).toEqual(["alice", "bob"]);
+    expect(commenters[0]).toMatchObject({ videoCount: 3, commentCount: 3, support: 1, neutral: 1, oppose: 1 });
+  });
+
+  it("ignores spam when linking authors", () => {
+    const spammed = analysisOf("d", "2024-04-01T00:00:00Z", []);
+    spammed.comments.push(
+      generateMockAnalyzedComment("d", { author: "carol", authorChannelId: "channel-carol", spamReason: "link-spam" })
+    );
+
+    const commenters = findRecurringCommenters([...analyses, spammed]);
+
+    expect(commenters.some((c) => c.author === "carol")).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { buildComparisonTimelines } from "../compare";
+import { buildVideoAnalysis } from "../aggregate";
+import { generateMockAnalyzedComment, generateMockVideo } from "@/lib/mock-data/generators";
+
+const HOUR = 60 * 60 * 1000;
+
+function analysisOf(id: string, publishedAt: string, commentHours: number[]) {
+  const published = new Date(publishedAt).getTime();
+  return buildVideoAnalysis(
+    generateMockVideo({ id, title: `Video ${id}`, publishedAt }),
+    commentHours.map((hours) =>
+      generateMockAnalyzedComment(id, { sentiment: 0.5, publishedAt: new Date(published + hours * HOUR).toISOString() })
+    )
+  );
+}
+
+describe("buildComparisonTimelines", () => {
+  // Published a month apart; both measured from their own publication
+  const early = analysisOf("a", "2024-01-01T00:00:00Z", [1, 30]);
+  const late = analysisOf("b", "2024-02-01T12:00:00Z", [1, 24 * 10]);
+
+  it("aligns series to hours since each video's publication", () => {
+    const { series } = buildComparisonTimelines([early, late], "day");
+
+    expect(series.map((s) => s.title)).toEqual(["Video a", "Video b"]);
+    expect(series[0].points[0]).toMatchObject({ time: 0, commentCount: 1 });
+    expect(series[1].points[0]).toMatchObject({ time: 0, commentCount: 1 });
+    expect(series[1].points).toHaveLength(11);
+  });
+
+  it("uses the coarsest automatic granularity for every series", () => {
+    const { granularity, series } = buildComparisonTimelines([early, late]);
+
+    expect(granularity).toBe("day");
+    expect(series[0].points.map((p) => p.endTime)).toEqual([24, 48]);
+  });
+});
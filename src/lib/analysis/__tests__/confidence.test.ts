@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { correctForPopulation, effectiveSampleSize, meanInterval, wilsonInterval } from "../confidence";
+import { calculateDistributionConfidence } from "../aggregate";
+import { generateCommentWithSentiment } from "@/lib/mock-data/generators";
+
+describe("wilsonInterval", () => {
+  it("matches the reference interval for 62 of 100", () => {
+    const { lower, upper } = wilsonInterval(0.62, 100);
+
+    expect(lower).toBeCloseTo(0.5221, 3);
+    expect(upper).toBeCloseTo(0.7091, 3);
+  });
+
+  it("stays inside [0, 1] at the extremes", () => {
+    expect(wilsonInterval(0, 10).lower).toBeCloseTo(0, 10);
+    expect(wilsonInterval(1, 10).upper).toBeCloseTo(1, 10);
+    expect(wilsonInterval(1, 10).upper).toBeLessThanOrEqual(1);
+    expect(wilsonInterval(0, 10).upper).toBeGreaterThan(0);
+  });
+
+  it("narrows as the sample grows", () => {
+    const small = wilsonInterval(0.5, 50);
+    const large = wilsonInterval(0.5, 5000);
+
+    expect(large.upper - large.lower).toBeLessThan(small.upper - small.lower);
+  });
+});
+
+describe("effectiveSampleSize", () => {
+  it("equals n for equal weights and shrinks for unequal ones", () => {
+    expect(effectiveSampleSize([1, 1, 1, 1])).toBe(4);
+    expect(effectiveSampleSize([1, 1, 0.5, 0.5])).toBeCloseTo(3.6, 5);
+  });
+});
+
+describe("correctForPopulation", () => {
+  it("leaves samples from large populations nearly unchanged", () => {
+    expect(correctForPopulation(200, 200, 1_000_000)).toBeCloseTo(200, 0);
+  });
+
+  it("removes sampling error for a full census", () => {
+    expect(correctForPopulation(200, 200, 200)).toBe(Infinity);
+    expect(wilsonInterval(0.6, Infinity)).toEqual({ lower: 0.6, upper: 0.6 });
+  });
+});
+
+describe("meanInterval", () => {
+  it("brackets the mean and respects the bounds", () => {
+    const interval = meanInterval([0.9, 1, 1, 0.8], { min: -1, max: 1 });
+
+    expect(interval!.lower).toBeLessThan(0.925);
+    expect(interval!.upper).toBe(1);
+  });
+
+  it("is undefined for a single value", () => {
+    expect(meanInterval([0.5], { min: -1, max: 1 })).toBeUndefined();
+  });
+});
+
+describe("calculateDistributionConfidence", () => {
+  const comments = [
+    ...Array.from({ length: 60 }, () => generateCommentWithSentiment("v1", 0.8)),
+    ...Array.from({ length: 30 }, () => generateCommentWithSentiment("v1", 0)),
+    ...Array.from({ length: 10 }, () => generateCommentWithSentiment("v1", -0.8)),
+  ].map((c) => ({ ...c, isRepeatUser: false }));
+
+  it("brackets each observed share", () => {
+    const confidence = calculateDistributionConfidence(comments)!;
+
+    expect(confidence.effectiveSampleSize).toBe(100);
+    expect(confidence.support.lower).toBeLessThan(0.6);
+    expect(confidence.support.upper).toBeGreaterThan(0.6);
+    expect(confidence.oppose.lower).toBeLessThan(0.1);
+    expect(confidence.oppose.upper).toBeGreaterThan(0.1);
+  });
+
+  it("is narrower when the sample covers most of the video's comments", () => {
+    const open = calculateDistributionConfidence(comments, 40_000)!;
+    const nearCensus = calculateDistributionConfidence(comments, 110)!;
+
+    expect(nearCensus.support.upper - nearCensus.support.lower)
+      .toBeLessThan(open.support.upper - open.support.lower);
+  });
+
+  it("is undefined without comments", () => {
+    expect(calculateDistributionConfidence([])).toBeUndefined();
+  });
+});
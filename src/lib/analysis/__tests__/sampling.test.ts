@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { createSeededRandom, groupThreads, sampleComments, seedFromString } from "../sampling";
+import type { YouTubeComment } from "@/types";
+
+function comment(id: string, overrides?: Partial<YouTubeComment>): YouTubeComment {
+  return {
+    id,
+    videoId: "v1",
+    author: `author-${id}`,
+    text: `text ${id}`,
+    likeCount: 0,
+    publishedAt: "2024-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const ids = (comments: YouTubeComment[]) => comments.map((c) => c.id);
+
+describe("sampleComments", () => {
+  const comments = Array.from({ length: 20 }, (_, i) =>
+    comment(`c${i}`, {
+      likeCount: i,
+      publishedAt: new Date(Date.UTC(2024, 0, 1) + i * 3_600_000).toISOString(),
+    })
+  );
+
+  it("keeps every comment in exactly one tier", () => {
+    for (const strategy of ["top-likes", "like-weighted", "random", "time-stratified", "thread-complete"] as const) {
+      const { rich, lite } = sampleComments(comments, { strategy, richSize: 5, seed: 1 });
+
+      expect(rich).toHaveLength(5);
+      expect(new Set([...ids(rich), ...ids(lite)]).size).toBe(20);
+    }
+  });
+
+  it("gives the most-liked comments the full prompt with top-likes", () => {
+    const { rich } = sampleComments(comments, { strategy: "top-likes", richSize: 3, seed: 1 });
+
+    expect(ids(rich)).toEqual(["c19", "c18", "c17"]);
+  });
+
+  it("is reproducible for a seed", () => {
+    const first = sampleComments(comments, { strategy: "random", richSize: 5, seed: 42 });
+    const second = sampleComments(comments, { strategy: "random", richSize: 5, seed: 42 });
+    const other = sampleComments(comments, { strategy: "random", richSize: 5, seed: 43 });
+
+    expect(ids(first.rich)).toEqual(ids(second.rich));
+    expect(ids(first.rich)).not.toEqual(ids(other.rich));
+  });
+
+  it("favours liked comments with like-weighted sampling", () => {
+    const skewed = [comment("popular", { likeCount: 10_000 }), ...Array.from({ length: 9 }, (_, i) => comment(`c${i}`))];
+    let picked = 0;
+    for (let seed = 0; seed < 50; seed++) {
+      const { rich } = sampleComments(skewed, { strategy: "like-weighted", richSize: 1, seed });
+      if (rich[0].id === "popular") picked++;
+    }
+
+    expect(picked).toBeGreaterThan(45);
+  });
+
+  it("covers the whole time range with time-stratified sampling", () => {
+    // Likes favour the newest comments; strata still reach the oldest
+    const { rich } = sampleComments(comments, { strategy: "time-stratified", richSize: 10, seed: 1 });
+    const hours = rich.map((c) => Number(c.id.slice(1)));
+
+    expect(Math.min(...hours)).toBeLessThanOrEqual(1);
+    expect(Math.max(...hours)).toBe(19);
+  });
+
+  it("never splits a thread across tiers", () => {
+    const threaded = [
+      comment("a", { likeCount: 50 }),
+      comment("a1", { parentId: "a" }),
+      comment("a2", { parentId: "a" }),
+      comment("b", { likeCount: 40 }),
+      comment("b1", { parentId: "b" }),
+      comment("c", { likeCount: 30 }),
+    ];
+
+    const { rich, lite } = sampleComments(threaded, { strategy: "thread-complete", richSize: 4, seed: 1 });
+
+    expect(ids(rich)).toEqual(["a", "a1", "a2", "c"]);
+    expect(ids(lite)).toEqual(["b", "b1"]);
+  });
+});
+
+describe("groupThreads", () => {
+  it("keeps replies whose parent was not fetched as their own thread", () => {
+    const threads = groupThreads([comment("a"), comment("x1", { parentId: "x" })]);
+
+    expect(threads.map(ids)).toEqual([["a"], ["x1"]]);
+  });
+});
+
+describe("seeded randomness", () => {
+  it("derives a stable seed from a string", () => {
+    expect(seedFromString("dQw4w9WgXcQ")).toBe(seedFromString("dQw4w9WgXcQ"));
+    expect(seedFromString("dQw4w9WgXcQ")).not.toBe(seedFromString("other"));
+  });
+
+  it("produces values in [0, 1)", () => {
+    const random = createSeededRandom(7);
+    const values = Array.from({ length: 1000 }, random);
+
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { detectSpam, estimateSimilarity, isLinkSpam, normalizeText } from "../spam";
+import { generateMockComment } from "@/lib/mock-data/generators";
+import type { YouTubeComment } from "@/types";
+
+const START = Date.UTC(2024, 0, 1);
+
+function comment(id: string, text: string, options: { author?: string; minute?: number } = {}): YouTubeComment {
+  return generateMockComment("v1", {
+    id,
+    text,
+    author: options.author || `author-${id}`,
+    authorChannelId: options.author || `UC-${id}`,
+    publishedAt: new Date(START + (options.minute ?? 0) * 60_000).toISOString(),
+  });
+}
+
+describe("normalizeText", () => {
+  it("ignores case, punctuation and spacing", () => {
+    expect(normalizeText("  Great   video!!! ")).toBe(normalizeText("great video"));
+  });
+});
+
+describe("isLinkSpam", () => {
+  it("flags scam links and contact handles", () => {
+    expect(isLinkSpam("Earn daily with crypto https://example.xyz/join")).toBe(true);
+    expect(isLinkSpam("see https://a.com/1 and https://b.com/2")).toBe(true);
+    expect(isLinkSpam("WhatsApp +1 555 123 4567 for trading tips")).toBe(true);
+  });
+
+  it("allows a single ordinary link", () => {
+    expect(isLinkSpam("The paper is at https://arxiv.org/abs/1234")).toBe(false);
+    expect(isLinkSpam("I love this song")).toBe(false);
+  });
+});
+
+describe("estimateSimilarity", () => {
+  it("is high for small edits and low for unrelated text", () => {
+    const original = "This video completely changed how I think about climate policy";
+    expect(estimateSimilarity(original, original + "!!")).toBe(1);
+    expect(estimateSimilarity(original, original.replace("completely", "totally"))).toBeGreaterThan(0.5);
+    expect(estimateSimilarity(original, "The drummer at the end of the show was amazing")).toBeLessThan(0.2);
+  });
+});
+
+describe("detectSpam", () => {
+  it("keeps the earliest copy of a text and flags the rest", () => {
+    const text = "Subscribe to my channel for daily motivation videos";
+    const flags = detectSpam([
+      comment("late", text.toUpperCase(), { minute: 5 }),
+      comment("first", text, { minute: 1 }),
+      comment("near", `${text} please`, { minute: 3 }),
+      comment("other", "The second half of the argument was much weaker", { minute: 2 }),
+    ]);
+
+    expect(flags.get("late")).toBe("duplicate");
+    expect(flags.get("near")).toBe("near-duplicate");
+    expect(flags.has("first")).toBe(false);
+    expect(flags.has("other")).toBe(false);
+  });
+
+  it("leaves short repeated reactions alone", () => {
+    const flags = detectSpam([comment("a", "lol"), comment("b", "lol"), comment("c", "first!")]);
+    expect(flags.size).toBe(0);
+  });
+
+  it("flags bursts from one author after their first comment", () => {
+    const texts = ["Great point", "Totally agree", "Not sure about this", "Interesting take", "Well argued"];
+    const burst = texts.map((text, i) => comment(`b${i}`, text, { author: "bot", minute: i }));
+    const spaced = texts.map((text, i) => comment(`s${i}`, `${text}!`, { author: "fan", minute: i * 60 }));
+
+    const flags = detectSpam([...burst, ...spaced]);
+
+    expect([...flags.keys()].sort()).toEqual(["b1", "b2", "b3", "b4"]);
+    expect(flags.get("b1")).toBe("burst");
+  });
+
+  it("reports link spam over other reasons", () => {
+    const text = "Free crypto giveaway at https://scam.xyz/claim now";
+    const flags = detectSpam([comment("a", text, { minute: 0 }), comment("b", text, { minute: 1 })]);
+
+    expect(flags.get("a")).toBe("link-spam");
+    expect(flags.get("b")).toBe("link-spam");
+  });
+});
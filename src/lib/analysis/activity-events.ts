@@ -0,0 +1,191 @@
+/**
+ * Coordinated-activity (brigading) detection
+ *
+ * Comments are bucketed into equal time windows aligned to the video's
+ * publication. A window is anomalous when its volume is well above the
+ * median of the windows just before it and the share of one stance rose
+ * sharply compared with all earlier comments. Consecutive anomalous windows
+ * with the same stance form one event.
+ *
+ * New-author share and text similarity are reported on each event as
+ * supporting evidence rather than used as criteria: an organic surge (a
+ * reaction video going live) can look like a brigade by volume alone.
+ */
+
+import { getAuthorKey } from "./authors";
+import { classifyStance, type StanceClass } from "./stance";
+import { compareSignatures, createTextSignature } from "./spam";
+import type { ActivityEvent, ActivityEventComment, AnalyzedComment } from "@/types";
+
+// The smallest of these window sizes giving at most TARGET_WINDOWS windows
+const TARGET_WINDOWS = 48;
+const WINDOW_SIZES_MINUTES = [15, 30, 60, 120, 180, 360, 720, 1440, 2880, 10080];
+
+// Trailing windows that form a window's expected volume, and how many are needed
+const BASELINE_WINDOWS = 6;
+const MIN_BASELINE_WINDOWS = 3;
+
+const MIN_EVENT_COMMENTS = 10;
+const VOLUME_RATIO = 3;
+const MIN_STANCE_SHIFT = 0.25;
+
+// Comments compared pairwise for text similarity, and comments shown per event
+const MAX_SIMILARITY_SAMPLE = 40;
+const REPRESENTATIVE_COMMENTS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type ShiftingStance = ActivityEvent["stance"];
+
+interface TimeWindow {
+  start: number;
+  comments: AnalyzedComment[];
+  expected: number;
+}
+
+/**
+ * Detect brigading-like events among analyzed comments, oldest first
+ */
+export function detectActivityEvents(comments: AnalyzedComment[], videoPublishedAt: string): ActivityEvent[] {
+  if (comments.length < MIN_EVENT_COMMENTS) return [];
+
+  const ordered = [...comments].sort((a, b) => timeOf(a) - timeOf(b));
+  const first = Math.min(new Date(videoPublishedAt).getTime(), timeOf(ordered[0]));
+  const span = timeOf(ordered[ordered.length - 1]) - first;
+  const windowMs = getWindowMs(span);
+
+  const buckets: TimeWindow[] = Array.from({ length: Math.floor(span / windowMs) + 1 }, (_, i) => ({
+    start: first + i * windowMs,
+    comments: [],
+    expected: 0,
+  }));
+  for (const comment of ordered) {
+    buckets[Math.floor((timeOf(comment) - first) / windowMs)].comments.push(comment);
+  }
+
+  // Stance counts of everything before each window
+  const before: Array<Record<StanceClass, number>> = [];
+  const running = { support: 0, neutral: 0, oppose: 0 };
+  for (const bucket of buckets) {
+    before.push({ ...running });
+    bucket.comments.forEach((c) => running[classifyStance(c.sentiment)]++);
+  }
+
+  // Anomalous windows, merged into runs with the same stance
+  const runs: Array<{ buckets: TimeWindow[]; stance: ShiftingStance; prior: Record<StanceClass, number> }> = [];
+  buckets.forEach((bucket, i) => {
+    const history = buckets.slice(Math.max(0, i - BASELINE_WINDOWS), i);
+    if (history.length < MIN_BASELINE_WINDOWS) return;
+
+    bucket.expected = median(history.map((w) => w.comments.length));
+    const count = bucket.comments.length;
+    if (count < MIN_EVENT_COMMENTS || count < VOLUME_RATIO * Math.max(bucket.expected, 1)) return;
+
+    const shift = getStanceShift(bucket.comments, before[i]);
+    if (!shift || shift.value < MIN_STANCE_SHIFT) return;
+
+    const previous = runs[runs.length - 1];
+    const isContinuation = previous && previous.stance === shift.stance && buckets[i - 1] === previous.buckets[previous.buckets.length - 1];
+    if (isContinuation) {
+      previous.buckets.push(bucket);
+    } else {
+      runs.push({ buckets: [bucket], stance: shift.stance, prior: before[i] });
+    }
+  });
+
+  if (runs.length === 0) return [];
+
+  const firstSeen = new Map<string, number>();
+  for (const comment of ordered) {
+    const key = getAuthorKey(comment);
+    if (!firstSeen.has(key)) firstSeen.set(key, timeOf(comment));
+  }
+
+  const videoTime = new Date(videoPublishedAt).getTime();
+
+  return runs.map(({ buckets: eventBuckets, stance, prior }) => {
+    const eventComments = eventBuckets.flatMap((w) => w.comments);
+    const start = eventBuckets[0].start;
+    const end = eventBuckets[eventBuckets.length - 1].start + windowMs;
+
+    const authors = new Set(eventComments.map(getAuthorKey));
+    const newAuthors = [...authors].filter((key) => firstSeen.get(key)! >= start);
+
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      startHours: Math.max(0, (start - videoTime) / HOUR_MS),
+      endHours: Math.max(0, (end - videoTime) / HOUR_MS),
+      commentCount: eventComments.length,
+      expectedCount: eventBuckets.reduce((sum, w) => sum + w.expected, 0),
+      stance,
+      stanceShift: getShare(eventComments, stance) - getPriorShare(prior, stance),
+      newAuthorShare: newAuthors.length / authors.size,
+      textSimilarity: meanPairwiseSimilarity(eventComments),
+      representativeComments: eventComments
+        .filter((c) => classifyStance(c.sentiment) === stance)
+        .sort((a, b) => b.likeCount - a.likeCount)
+        .slice(0, REPRESENTATIVE_COMMENTS)
+        .map(toEventComment),
+    };
+  });
+}
+
+/**
+ * The support or oppose share that rose most compared with earlier comments
+ */
+function getStanceShift(
+  comments: AnalyzedComment[],
+  prior: Record<StanceClass, number>
+): { stance: ShiftingStance; value: number } | null {
+  if (prior.support + prior.neutral + prior.oppose === 0) return null;
+
+  const shifts = (["support", "oppose"] as const).map((stance) => ({
+    stance,
+    value: getShare(comments, stance) - getPriorShare(prior, stance),
+  }));
+  return shifts[0].value >= shifts[1].value ? shifts[0] : shifts[1];
+}
+
+function getShare(comments: AnalyzedComment[], stance: StanceClass): number {
+  return comments.filter((c) => classifyStance(c.sentiment) === stance).length / comments.length;
+}
+
+function getPriorShare(prior: Record<StanceClass, number>, stance: StanceClass): number {
+  return prior[stance] / (prior.support + prior.neutral + prior.oppose);
+}
+
+/**
+ * Mean MinHash similarity over all pairs of (up to MAX_SIMILARITY_SAMPLE) comments
+ */
+function meanPairwiseSimilarity(comments: AnalyzedComment[]): number {
+  const signatures = comments.slice(0, MAX_SIMILARITY_SAMPLE).map((c) => createTextSignature(c.text));
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < signatures.length; i++) {
+    for (let j = i + 1; j < signatures.length; j++) {
+      total += compareSignatures(signatures[i], signatures[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? total / pairs : 0;
+}
+
+function getWindowMs(span: number): number {
+  const minutes = WINDOW_SIZES_MINUTES.find((size) => span / (size * 60 * 1000) <= TARGET_WINDOWS);
+  return (minutes ?? WINDOW_SIZES_MINUTES[WINDOW_SIZES_MINUTES.length - 1]) * 60 * 1000;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function timeOf(comment: AnalyzedComment): number {
+  return new Date(comment.publishedAt).getTime();
+}
+
+function toEventComment({ id, author, text, sentiment, likeCount, publishedAt }: AnalyzedComment): ActivityEventComment {
+  return { id, author, text, sentiment, likeCount, publishedAt };
+}
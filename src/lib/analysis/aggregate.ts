@@ -0,0 +1,278 @@
+/**
+ * Aggregation helpers for analyzed comments
+ *
+ * Pure functions shared by the server pipeline and the client, which
+ * rebuilds partial results from the comments analyzed so far while a job
+ * is still running.
+ */
+
+import { detectActivityEvents } from "./activity-events";
+import { aggregateAuthors, markRepeatUsers } from "./authors";
+import { classifyStance } from "./stance";
+import { CONFIDENCE_LEVEL, correctForPopulation, effectiveSampleSize, meanInterval, wilsonInterval } from "./confidence";
+import type {
+  AnalysisUsage,
+  AxisProfile,
+  DistributionConfidence,
+  SamplingInfo,
+  VideoAnalysis,
+  YouTubeVideo,
+  AnalyzedComment,
+  SentimentDistribution,
+  TimeSeriesPoint,
+  TimelineGranularity,
+  ScatterDataPoint,
+} from "@/types";
+
+/**
+ * Calculate the stance distribution with bias reduction
+ *
+ * Multiple comments from the same user get slightly less weight (0.5x)
+ * to prevent a single user from dominating the sentiment; see markRepeatUsers.
+ */
+export function calculateDistribution(comments: AnalyzedComment[]): SentimentDistribution {
+  const allUniqueUsers = new Set(comments.map((c) => c.authorChannelId || c.author));
+
+  let positiveWeight = 0;
+  let neutralWeight = 0;
+  let negativeWeight = 0;
+
+  comments.forEach((c) => {
+    const weight = commentWeight(c);
+    const stance = classifyStance(c.sentiment);
+    if (stance === "support") positiveWeight += weight;
+    else if (stance === "oppose") negativeWeight += weight;
+    else neutralWeight += weight;
+  });
+
+  const totalWeight = positiveWeight + neutralWeight + negativeWeight;
+
+  // Normalize weights to match total comment count for the UI display
+  const scaleFactor = totalWeight > 0 ? comments.length / totalWeight : 0;
+
+  return {
+    support: Math.round(positiveWeight * scaleFactor),
+    neutral: Math.round(neutralWeight * scaleFactor),
+    oppose: Math.round(negativeWeight * scaleFactor),
+    total: comments.length,
+    uniqueUsers: allUniqueUsers.size,
+  };
+}
+
+/**
+ * Weight of a comment in the distribution (repeat users count half)
+ */
+function commentWeight(comment: AnalyzedComment): number {
+  return comment.isRepeatUser ? 0.5 : 1.0;
+}
+
+/**
+ * 95% Wilson intervals for the weighted stance shares. `totalComments`
+ * (the video's comment count) applies the finite population correction.
+ */
+export function calculateDistributionConfidence(
+  comments: AnalyzedComment[],
+  totalComments?: number
+): DistributionConfidence | undefined {
+  if (comments.length === 0) return undefined;
+
+  const weights = comments.map(commentWeight);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const shares = { support: 0, neutral: 0, oppose: 0 };
+  comments.forEach((c, i) => {
+    shares[classifyStance(c.sentiment)] += weights[i] / totalWeight;
+  });
+
+  const effectiveSize = effectiveSampleSize(weights);
+  const n = correctForPopulation(effectiveSize, comments.length, totalComments);
+
+  return {
+    level: CONFIDENCE_LEVEL,
+    method: "wilson",
+    effectiveSampleSize: effectiveSize,
+    support: wilsonInterval(shares.support, n),
+    neutral: wilsonInterval(shares.neutral, n),
+    oppose: wilsonInterval(shares.oppose, n),
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const GRANULARITY_HOURS: Record<Exclude<TimelineGranularity, "auto">, number> = {
+  hour: 1,
+  day: 24,
+  week: 24 * 7,
+};
+
+// Upper bound on timeline points, however long the comments span
+export const MAX_TIMELINE_BUCKETS = 500;
+
+/**
+ * Bucket size for a span of comments: the granularity's own, or the next
+ * coarser one when that would exceed MAX_TIMELINE_BUCKETS. Beyond weeks,
+ * buckets grow in whole weeks.
+ */
+function resolveBucketHours(granularity: Exclude<TimelineGranularity, "auto">, spanHours: number): number {
+  const fits = (hours: number) => Math.floor(spanHours / hours) + 1 <= MAX_TIMELINE_BUCKETS;
+
+  const sizes = Object.values(GRANULARITY_HOURS).filter((hours) => hours >= GRANULARITY_HOURS[granularity]);
+  const fitting = sizes.find(fits);
+  if (fitting) return fitting;
+
+  const week = GRANULARITY_HOURS.week;
+  return Math.ceil(spanHours / (MAX_TIMELINE_BUCKETS - 1) / week) * week;
+}
+
+/**
+ * The bucket size "auto" stands for: hours for the first three days of
+ * comments, days up to three months, weeks beyond
+ */
+export function resolveTimelineGranularity(
+  comments: AnalyzedComment[],
+  videoPublishedAt: string
+): Exclude<TimelineGranularity, "auto"> {
+  const published = new Date(videoPublishedAt).getTime();
+  const last = comments.reduce((latest, c) => Math.max(latest, new Date(c.publishedAt).getTime()), published);
+  const spanHours = (last - published) / HOUR_MS;
+
+  if (spanHours <= 72) return "hour";
+  if (spanHours <= 90 * 24) return "day";
+  return "week";
+}
+
+/**
+ * Generate timeline data from analyzed comments
+ *
+ * Buckets are non-overlapping, aligned to the video's publication and run up
+ * to the newest comment; empty buckets are kept (with an average of 0) so
+ * gaps stay visible. With `cumulative`, each point covers every comment up
+ * to the end of its bucket instead. Spans too long for the granularity fall
+ * back to coarser buckets (see MAX_TIMELINE_BUCKETS).
+ */
+export function generateTimeline(
+  comments: AnalyzedComment[],
+  videoPublishedAt: string,
+  options?: { granularity?: TimelineGranularity; cumulative?: boolean }
+): TimeSeriesPoint[] {
+  if (comments.length === 0) return [];
+
+  const granularity = !options?.granularity || options.granularity === "auto"
+    ? resolveTimelineGranularity(comments, videoPublishedAt)
+    : options.granularity;
+  const published = new Date(videoPublishedAt).getTime();
+
+  // Comments from before publication (e.g. premieres) fall into the first bucket
+  const hoursOf = (c: AnalyzedComment) => Math.max(0, (new Date(c.publishedAt).getTime() - published) / HOUR_MS);
+  const ordered = [...comments].sort((a, b) => hoursOf(a) - hoursOf(b));
+  const bucketHours = resolveBucketHours(granularity, hoursOf(ordered[ordered.length - 1]));
+  const bucketCount = Math.floor(hoursOf(ordered[ordered.length - 1]) / bucketHours) + 1;
+
+  const buckets: AnalyzedComment[][] = Array.from({ length: bucketCount }, () => []);
+  for (const comment of ordered) {
+    buckets[Math.floor(hoursOf(comment) / bucketHours)].push(comment);
+  }
+
+  const timeline: TimeSeriesPoint[] = [];
+  const seen: AnalyzedComment[] = [];
+
+  buckets.forEach((bucket, i) => {
+    seen.push(...bucket);
+    const covered = options?.cumulative ? seen : bucket;
+
+    const counts = { support: 0, neutral: 0, oppose: 0 };
+    covered.forEach((c) => counts[classifyStance(c.sentiment)]++);
+
+    const sentiments = covered.map((c) => c.sentiment);
+    const interval = meanInterval(sentiments, { min: -1, max: 1 });
+    const likeWeights = covered.map((c) => Math.max(0, c.likeCount) + 1);
+    const totalLikeWeight = likeWeights.reduce((sum, w) => sum + w, 0);
+
+    timeline.push({
+      time: i * bucketHours,
+      endTime: (i + 1) * bucketHours,
+      avgSentiment: covered.length > 0 ? sentiments.reduce((sum, v) => sum + v, 0) / covered.length : 0,
+      likeWeightedSentiment: totalLikeWeight > 0
+        ? covered.reduce((sum, c, j) => sum + c.sentiment * likeWeights[j], 0) / totalLikeWeight
+        : 0,
+      commentCount: covered.length,
+      ...counts,
+      ciLower: interval?.lower,
+      ciUpper: interval?.upper,
+    });
+  });
+
+  return timeline;
+}
+
+/**
+ * Generate scatter plot data from analyzed comments
+ */
+export function generateScatterData(comments: AnalyzedComment[], videoPublishedAt: string): ScatterDataPoint[] {
+  const videoDate = new Date(videoPublishedAt);
+
+  return comments.map((comment) => {
+    const commentDate = new Date(comment.publishedAt);
+    const hoursSinceVideo = (commentDate.getTime() - videoDate.getTime()) / (1000 * 60 * 60);
+
+    return {
+      time: Math.max(0, hoursSinceVideo),
+      sentiment: comment.sentiment,
+      likeCount: comment.likeCount,
+      text: comment.text,
+      commentId: comment.id,
+    };
+  });
+}
+
+/**
+ * Whether a comment counts toward the aggregates. Comments whose analysis
+ * failed or that were filtered as spam stay in the list but carry no stance.
+ */
+export function hasStance(comment: AnalyzedComment): boolean {
+  return !comment.analysisError && !comment.spamReason;
+}
+
+/**
+ * Build a complete VideoAnalysis from a video and its analyzed comments
+ */
+export function buildVideoAnalysis(
+  video: YouTubeVideo,
+  comments: AnalyzedComment[],
+  options?: {
+    isPartial?: boolean;
+    usage?: AnalysisUsage;
+    sampling?: SamplingInfo;
+    axisProfile?: AxisProfile;
+    now?: Date;
+  }
+): VideoAnalysis {
+  const now = options?.now || new Date();
+
+  // Repeat detection needs the whole video, so it happens here rather than per
+  // batch. Spam and failed comments carry no stance, so they never count as
+  // an author's first comment.
+  const analyzed = markRepeatUsers(comments.filter(hasStance));
+  let next = 0;
+  const marked = comments.map((c) => (hasStance(c) ? analyzed[next++] : c));
+  const spam = marked.filter((c) => c.spamReason).length;
+
+  return {
+    video,
+    comments: marked,
+    distribution: {
+      ...calculateDistribution(analyzed),
+      failed: comments.length - analyzed.length - spam,
+      spam,
+    },
+    confidence: calculateDistributionConfidence(analyzed, options?.sampling?.totalComments),
+    timeline: generateTimeline(analyzed, video.publishedAt),
+    scatterData: generateScatterData(analyzed, video.publishedAt),
+    analyzedAt: now.toISOString(),
+    isPartial: options?.isPartial || false,
+    usage: options?.usage,
+    sampling: options?.sampling,
+    authors: aggregateAuthors(analyzed),
+    activityEvents: detectActivityEvents(analyzed, video.publishedAt),
+    axisProfile: options?.axisProfile,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Per-author aggregation
+ *
+ * Authors are keyed by `authorChannelId`, falling back to the display name
+ * for comments without one. Detection runs over the whole video, not per
+ * batch, so an author's comments are linked however they were batched.
+ */
+
+import { classifyStance } from "./stance";
+import type { AnalyzedComment, AuthorSummary, YouTubeComment } from "@/types";
+
+// Authors listed on a result
+const MAX_AUTHORS = 20;
+
+export function getAuthorKey(comment: Pick<YouTubeComment, "author" | "authorChannelId">): string {
+  return comment.authorChannelId || comment.author;
+}
+
+/**
+ * Flag every comment after an author's first (by publishedAt) as a repeat,
+ * so each author's first comment counts fully and the rest are down-weighted
+ */
+export function markRepeatUsers(comments: AnalyzedComment[]): AnalyzedComment[] {
+  const firstByAuthor = new Map<string, AnalyzedComment>();
+  for (const comment of comments) {
+    const key = getAuthorKey(comment);
+    const first = firstByAuthor.get(key);
+    if (!first || isEarlier(comment, first)) {
+      firstByAuthor.set(key, comment);
+    }
+  }
+
+  return comments.map((comment) => {
+    const isRepeatUser = firstByAuthor.get(getAuthorKey(comment)) !== comment;
+    return comment.isRepeatUser === isRepeatUser ? comment : { ...comment, isRepeatUser };
+  });
+}
+
+/**
+ * The most prolific authors (two or more comments), most comments first
+ */
+export function aggregateAuthors(comments: AnalyzedComment[], limit: number = MAX_AUTHORS): AuthorSummary[] {
+  const byAuthor = new Map<string, AnalyzedComment[]>();
+  for (const comment of comments) {
+    const key = getAuthorKey(comment);
+    const authored = byAuthor.get(key) || [];
+    authored.push(comment);
+    byAuthor.set(key, authored);
+  }
+
+  const summaries: AuthorSummary[] = [];
+  for (const [authorKey, authored] of byAuthor) {
+    if (authored.length < 2) continue;
+
+    const counts = { support: 0, neutral: 0, oppose: 0 };
+    authored.forEach((c) => counts[classifyStance(c.sentiment)]++);
+
+    summaries.push({
+      authorKey,
+      author: authored[0].author,
+      authorChannelId: authored[0].authorChannelId,
+      commentCount: authored.length,
+      avgSentiment: authored.reduce((sum, c) => sum + c.sentiment, 0) / authored.length,
+      ...counts,
+      isFlipFlopper: counts.support > 0 && counts.oppose > 0,
+      totalLikes: authored.reduce((sum, c) => sum + c.likeCount, 0),
+    });
+  }
+
+  return summaries
+    .sort((a, b) => b.commentCount - a.commentCount || b.totalLikes - a.totalLikes)
+    .slice(0, limit);
+}
+
+function isEarlier(a: YouTubeComment, b: YouTubeComment): boolean {
+  return new Date(a.publishedAt).getTime() < new Date(b.publishedAt).getTime();
+}
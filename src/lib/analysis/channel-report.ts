@@ -0,0 +1,131 @@
+/**
+ * Channel reports
+ *
+ * Summarizes the analyses of a channel's recent uploads: one summary per
+ * video, the stance trend across uploads (oldest first) and the authors who
+ * commented on more than one of them. Only comments with a stance count;
+ * spam and failed analyses are left out.
+ */
+
+import { hasStance } from "./aggregate";
+import { getAuthorKey } from "./authors";
+import { classifyStance } from "./stance";
+import type {
+  AnalyzedComment,
+  ChannelReport,
+  ChannelTrendPoint,
+  ChannelVideoSummary,
+  RecurringCommenter,
+  VideoAnalysis,
+  YouTubeChannel,
+} from "@/types";
+
+// Recurring commenters listed on a report
+const MAX_RECURRING_COMMENTERS = 30;
+
+export function summarizeChannelVideo(analysis: VideoAnalysis): ChannelVideoSummary {
+  const analyzed = analysis.comments.filter(hasStance);
+
+  return {
+    videoId: analysis.video.id,
+    title: analysis.video.title,
+    publishedAt: analysis.video.publishedAt,
+    thumbnailUrl: analysis.video.thumbnailUrl,
+    distribution: analysis.distribution,
+    confidence: analysis.confidence,
+    avgSentiment: average(analyzed.map((c) => c.sentiment)),
+    mainAxis: analysis.axisProfile?.mainAxis,
+    isPartial: analysis.isPartial,
+  };
+}
+
+/**
+ * Stance of each upload in publication order, oldest first
+ */
+export function buildChannelTrend(summaries: ChannelVideoSummary[]): ChannelTrendPoint[] {
+  return [...summaries]
+    .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())
+    .map((summary) => {
+      const { support, oppose, total } = summary.distribution;
+      return {
+        videoId: summary.videoId,
+        title: summary.title,
+        publishedAt: summary.publishedAt,
+        avgSentiment: summary.avgSentiment,
+        supportShare: total > 0 ? support / total : 0,
+        opposeShare: total > 0 ? oppose / total : 0,
+        commentCount: total,
+      };
+    });
+}
+
+/**
+ * Authors who commented on two or more of the analyses, most videos first
+ */
+export function findRecurringCommenters(
+  analyses: VideoAnalysis[],
+  limit: number = MAX_RECURRING_COMMENTERS
+): RecurringCommenter[] {
+  const byAuthor = new Map<string, { videos: Set<string>; comments: AnalyzedComment[] }>();
+  for (const analysis of analyses) {
+    for (const comment of analysis.comments.filter(hasStance)) {
+      const key = getAuthorKey(comment);
+      const entry = byAuthor.get(key) || { videos: new Set<string>(), comments: [] };
+      entry.videos.add(analysis.video.id);
+      entry.comments.push(comment);
+      byAuthor.set(key, entry);
+    }
+  }
+
+  const commenters: RecurringCommenter[] = [];
+  for (const [authorKey, { videos, comments }] of byAuthor) {
+    if (videos.size < 2) continue;
+
+    const counts = { support: 0, neutral: 0, oppose: 0 };
+    comments.forEach((c) => counts[classifyStance(c.sentiment)]++);
+
+    commenters.push({
+      authorKey,
+      author: comments[0].author,
+      authorChannelId: comments[0].authorChannelId,
+      videoCount: videos.size,
+      commentCount: comments.length,
+      avgSentiment: average(comments.map((c) => c.sentiment)),
+      ...counts,
+    });
+  }
+
+  return commenters
+    .sort((a, b) => b.videoCount - a.videoCount || b.commentCount - a.commentCount)
+    .slice(0, limit);
+}
+
+/**
+ * Build the report for a channel from the analyses of its uploads
+ * (in channel order, newest first) and the uploads that could not be analyzed
+ */
+export function buildChannelReport(
+  channel: YouTubeChannel,
+  analyses: VideoAnalysis[],
+  options: {
+    commentsPerVideo: number;
+    failedVideos?: ChannelReport["failedVideos"];
+    now?: Date;
+  }
+): ChannelReport {
+  const videos = analyses.map(summarizeChannelVideo);
+
+  return {
+    channel,
+    videos,
+    trend: buildChannelTrend(videos),
+    recurringCommenters: findRecurringCommenters(analyses),
+    failedVideos: options.failedVideos || [],
+    commentsPerVideo: options.commentsPerVideo,
+    analyzedAt: (options.now || new Date()).toISOString(),
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
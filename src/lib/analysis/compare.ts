@@ -0,0 +1,51 @@
+/**
+ * Multi-video comparison helpers
+ *
+ * Each video's timeline is measured in hours since its own publication, so
+ * videos published at different times can be overlaid on one axis. All
+ * series share one granularity so their buckets line up.
+ */
+
+import { generateTimeline, hasStance, resolveTimelineGranularity } from "./aggregate";
+import type { TimelineGranularity, TimeSeriesPoint, VideoAnalysis } from "@/types";
+
+type FixedGranularity = Exclude<TimelineGranularity, "auto">;
+
+const GRANULARITY_ORDER: FixedGranularity[] = ["hour", "day", "week"];
+
+export interface ComparisonSeries {
+  videoId: string;
+  title: string;
+  points: TimeSeriesPoint[];
+}
+
+/**
+ * Timelines of several analyses at a shared granularity. "auto" picks the
+ * coarsest of the videos' own automatic granularities.
+ */
+export function buildComparisonTimelines(
+  analyses: VideoAnalysis[],
+  granularity: TimelineGranularity = "auto",
+  options?: { cumulative?: boolean }
+): { granularity: FixedGranularity; series: ComparisonSeries[] } {
+  const stanceComments = analyses.map((analysis) => analysis.comments.filter(hasStance));
+
+  const resolved = granularity !== "auto"
+    ? granularity
+    : analyses.reduce<FixedGranularity>((coarsest, analysis, i) => {
+        const own = resolveTimelineGranularity(stanceComments[i], analysis.video.publishedAt);
+        return GRANULARITY_ORDER.indexOf(own) > GRANULARITY_ORDER.indexOf(coarsest) ? own : coarsest;
+      }, "hour");
+
+  return {
+    granularity: resolved,
+    series: analyses.map((analysis, i) => ({
+      videoId: analysis.video.id,
+      title: analysis.video.title,
+      points: generateTimeline(stanceComments[i], analysis.video.publishedAt, {
+        granularity: resolved,
+        cumulative: options?.cumulative,
+      }),
+    })),
+  };
+}
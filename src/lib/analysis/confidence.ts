@@ -0,0 +1,73 @@
+/**
+ * Confidence intervals for sampled results
+ *
+ * Shares use the Wilson score interval, which behaves well for small samples
+ * and shares near 0 or 1. Unequal comment weights shrink the information in
+ * a sample, so intervals are computed on Kish's effective sample size, and a
+ * finite population correction narrows them as the sample approaches the
+ * video's full comment count.
+ */
+
+import type { ConfidenceInterval } from "@/types";
+
+export const CONFIDENCE_LEVEL = 0.95;
+const Z_95 = 1.959964;
+
+/**
+ * Wilson score interval for a share `p` observed in a sample of size `n`
+ */
+export function wilsonInterval(p: number, n: number, z: number = Z_95): ConfidenceInterval {
+  if (n <= 0) return { lower: 0, upper: 1 };
+
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Kish's effective sample size: (Σw)² / Σw²
+ */
+export function effectiveSampleSize(weights: number[]): number {
+  const sum = weights.reduce((total, w) => total + w, 0);
+  const sumOfSquares = weights.reduce((total, w) => total + w * w, 0);
+  return sumOfSquares > 0 ? (sum * sum) / sumOfSquares : 0;
+}
+
+/**
+ * Inflate a sample size by the finite population correction. A sample
+ * covering the whole population has no sampling error (Infinity).
+ */
+export function correctForPopulation(effectiveSize: number, sampled: number, population?: number): number {
+  if (!population || population <= 1 || sampled <= 0) return effectiveSize;
+
+  const correction = (population - Math.min(sampled, population)) / (population - 1);
+  return correction > 0 ? effectiveSize / correction : Infinity;
+}
+
+/**
+ * Normal-approximation interval for a mean, clamped to [min, max].
+ * Undefined for fewer than two values.
+ */
+export function meanInterval(
+  values: number[],
+  bounds: { min: number; max: number },
+  z: number = Z_95
+): ConfidenceInterval | undefined {
+  const n = values.length;
+  if (n < 2) return undefined;
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const margin = z * Math.sqrt(variance / n);
+
+  return {
+    lower: Math.max(bounds.min, mean - margin),
+    upper: Math.min(bounds.max, mean + margin),
+  };
+}
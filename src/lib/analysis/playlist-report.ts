@@ -0,0 +1,57 @@
+/**
+ * Playlist reports
+ *
+ * Aggregates the analyses of a playlist's videos: the per-video summaries
+ * in playlist order, the stance distribution of all videos together and
+ * the authors who commented on more than one of them.
+ */
+
+import { hasStance } from "./aggregate";
+import { getAuthorKey } from "./authors";
+import { findRecurringCommenters, summarizeChannelVideo } from "./channel-report";
+import type { PlaylistReport, SentimentDistribution, VideoAnalysis, YouTubePlaylist } from "@/types";
+
+/**
+ * Sum of the videos' distributions; unique users are counted across videos
+ */
+export function combineDistributions(analyses: VideoAnalysis[]): SentimentDistribution {
+  const authors = new Set(analyses.flatMap((analysis) => analysis.comments.filter(hasStance).map(getAuthorKey)));
+
+  return analyses.reduce<SentimentDistribution>(
+    (sum, { distribution }) => ({
+      support: sum.support + distribution.support,
+      neutral: sum.neutral + distribution.neutral,
+      oppose: sum.oppose + distribution.oppose,
+      total: sum.total + distribution.total,
+      uniqueUsers: sum.uniqueUsers,
+      failed: (sum.failed || 0) + (distribution.failed || 0),
+      spam: (sum.spam || 0) + (distribution.spam || 0),
+    }),
+    { support: 0, neutral: 0, oppose: 0, total: 0, uniqueUsers: authors.size, failed: 0, spam: 0 }
+  );
+}
+
+/**
+ * Build the report for a playlist from the analyses of its videos
+ * (in playlist order) and the videos that could not be analyzed
+ */
+export function buildPlaylistReport(
+  playlist: YouTubePlaylist,
+  analyses: VideoAnalysis[],
+  options?: {
+    failedVideos?: PlaylistReport["failedVideos"];
+    now?: Date;
+  }
+): PlaylistReport {
+  const sentiments = analyses.flatMap((analysis) => analysis.comments.filter(hasStance).map((c) => c.sentiment));
+
+  return {
+    playlist,
+    videos: analyses.map(summarizeChannelVideo),
+    distribution: combineDistributions(analyses),
+    avgSentiment: sentiments.length > 0 ? sentiments.reduce((sum, s) => sum + s, 0) / sentiments.length : 0,
+    recurringCommenters: findRecurringCommenters(analyses),
+    failedVideos: options?.failedVideos || [],
+    analyzedAt: (options?.now || new Date()).toISOString(),
+  };
+}
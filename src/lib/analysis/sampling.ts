@@ -0,0 +1,198 @@
+/**
+ * Sampling strategies for tiered analysis
+ *
+ * A strategy decides which of the fetched comments get the full (rich)
+ * prompt and which the lite one. Sorting by likes alone over-represents
+ * popular and early opinions, so the alternatives trade some of that
+ * signal for coverage. Randomized strategies take a seed so runs are
+ * reproducible.
+ */
+
+import type { SamplingStrategyName, YouTubeComment } from "@/types";
+
+export interface TieredSample {
+  rich: YouTubeComment[];
+  lite: YouTubeComment[];
+}
+
+export interface SamplingStrategy {
+  readonly name: SamplingStrategyName;
+  sample(comments: YouTubeComment[], richSize: number, random: () => number): TieredSample;
+}
+
+// Time strata used by the time-stratified strategy
+const TIME_STRATA = 10;
+
+const byLikes = (a: YouTubeComment, b: YouTubeComment) => b.likeCount - a.likeCount;
+
+function split(ordered: YouTubeComment[], richSize: number): TieredSample {
+  return { rich: ordered.slice(0, richSize), lite: ordered.slice(richSize) };
+}
+
+/**
+ * The most-liked comments get the full prompt (the original behaviour)
+ */
+const topLikes: SamplingStrategy = {
+  name: "top-likes",
+  sample: (comments, richSize) => split([...comments].sort(byLikes), richSize),
+};
+
+/**
+ * Weighted sampling without replacement, weight = likes + 1
+ * (Efraimidis-Spirakis): popular comments are likelier picks, not certain ones
+ */
+const likeWeighted: SamplingStrategy = {
+  name: "like-weighted",
+  sample: (comments, richSize, random) => {
+    const keyed = comments.map((comment) => ({
+      comment,
+      key: Math.pow(random(), 1 / (Math.max(0, comment.likeCount) + 1)),
+    }));
+    keyed.sort((a, b) => b.key - a.key);
+    return split(keyed.map(({ comment }) => comment), richSize);
+  },
+};
+
+/**
+ * Uniform random sample
+ */
+const uniformRandom: SamplingStrategy = {
+  name: "random",
+  sample: (comments, richSize, random) => split(shuffle(comments, random), richSize),
+};
+
+/**
+ * Equal-width time strata across the publishedAt range, picked round-robin
+ * (most-liked first within each), so late comments are covered as well as early ones
+ */
+const timeStratified: SamplingStrategy = {
+  name: "time-stratified",
+  sample: (comments, richSize) => {
+    if (comments.length === 0) return { rich: [], lite: [] };
+
+    const times = comments.map((c) => new Date(c.publishedAt).getTime());
+    const start = Math.min(...times);
+    const width = (Math.max(...times) - start) / TIME_STRATA || 1;
+
+    const strata: YouTubeComment[][] = Array.from({ length: TIME_STRATA }, () => []);
+    comments.forEach((comment, i) => {
+      strata[Math.min(TIME_STRATA - 1, Math.floor((times[i] - start) / width))].push(comment);
+    });
+    strata.forEach((stratum) => stratum.sort(byLikes));
+
+    const ordered: YouTubeComment[] = [];
+    for (let round = 0; ordered.length < comments.length; round++) {
+      for (const stratum of strata) {
+        if (round < stratum.length) ordered.push(stratum[round]);
+      }
+    }
+    return split(ordered, richSize);
+  },
+};
+
+/**
+ * Whole threads (a comment and its replies), most-liked thread first.
+ * A thread that does not fit in the rich tier goes to the lite tier whole.
+ */
+const threadComplete: SamplingStrategy = {
+  name: "thread-complete",
+  sample: (comments, richSize) => {
+    const rich: YouTubeComment[] = [];
+    const lite: YouTubeComment[] = [];
+
+    for (const thread of groupThreads(comments)) {
+      if (rich.length + thread.length <= richSize) {
+        rich.push(...thread);
+      } else {
+        lite.push(...thread);
+      }
+    }
+    return { rich, lite };
+  },
+};
+
+const STRATEGIES: Record<SamplingStrategyName, SamplingStrategy> = {
+  "top-likes": topLikes,
+  "like-weighted": likeWeighted,
+  random: uniformRandom,
+  "time-stratified": timeStratified,
+  "thread-complete": threadComplete,
+};
+
+export const SAMPLING_STRATEGY_NAMES = Object.keys(STRATEGIES) as SamplingStrategyName[];
+
+export function getSamplingStrategy(name: SamplingStrategyName): SamplingStrategy {
+  return STRATEGIES[name];
+}
+
+/**
+ * Split comments into rich and lite tiers with the named strategy
+ */
+export function sampleComments(
+  comments: YouTubeComment[],
+  options: { strategy: SamplingStrategyName; richSize: number; seed: number }
+): TieredSample {
+  return getSamplingStrategy(options.strategy).sample(comments, options.richSize, createSeededRandom(options.seed));
+}
+
+/**
+ * Group comments into threads: a top-level comment followed by its replies
+ * in posting order. Replies whose parent was not fetched form their own thread.
+ */
+export function groupThreads(comments: YouTubeComment[]): YouTubeComment[][] {
+  const ids = new Set(comments.map((c) => c.id));
+  const replies = new Map<string, YouTubeComment[]>();
+  const roots: YouTubeComment[] = [];
+
+  for (const comment of comments) {
+    if (comment.parentId && ids.has(comment.parentId)) {
+      const siblings = replies.get(comment.parentId) || [];
+      siblings.push(comment);
+      replies.set(comment.parentId, siblings);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const byTime = (a: YouTubeComment, b: YouTubeComment) =>
+    new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime();
+
+  return roots
+    .sort(byLikes)
+    .map((root) => [root, ...(replies.get(root.id) || []).sort(byTime)]);
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable seed for a string (FNV-1a), e.g. the video ID
+ */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
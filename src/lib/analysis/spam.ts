@@ -0,0 +1,234 @@
+/**
+ * Spam and duplicate detection
+ *
+ * Runs before sampling, so flagged comments are never sent to the LLM and
+ * are left out of the distribution. Four signals are checked:
+ * exact duplicates (after normalization), near-duplicates (MinHash over
+ * character shingles, bucketed with LSH), link spam, and bursts of
+ * comments from one author. The earliest copy of a duplicated text is
+ * kept; later copies are flagged.
+ */
+
+import { getAuthorKey } from "./authors";
+import type { SpamReason, YouTubeComment } from "@/types";
+
+// Normalized texts shorter than this are left alone: short reactions
+// ("lol", "first") repeat naturally
+const MIN_DUPLICATE_LENGTH = 20;
+
+// Character shingle size; characters rather than words so unspaced
+// languages (e.g. Japanese) are handled too
+const SHINGLE_SIZE = 4;
+
+// MinHash signature = BANDS x ROWS hash values; two texts become candidates
+// when any band matches, then must reach the similarity threshold
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 4;
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// The same author posting this many comments within the window is a burst
+const BURST_MIN_COMMENTS = 5;
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|xyz|top|info|biz|ly|me|gg|link|click|shop)\/\S*/gi;
+const SCAM_PATTERN = /\b(?:whats\s?app|telegram|t\.me|crypto|bitcoin|btc|forex|investment|giveaway|free\s+(?:gift|money|robux|v-?bucks)|dm\s+me|contact\s+me|check\s+my\s+(?:channel|profile))\b/i;
+const CONTACT_PATTERN = /\b(?:whats\s?app|telegram)\b[^a-z]{0,5}\+?\d[\d\s-]{6,}/i;
+
+// Ordered by severity: a comment matching several signals reports the first
+const REASON_PRIORITY: SpamReason[] = ["link-spam", "duplicate", "near-duplicate", "burst"];
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_BANDS * MINHASH_ROWS }, (_, i) => mix32(i + 1));
+
+/**
+ * Flag spam among comments: comment ID -> reason. Unflagged comments are absent.
+ */
+export function detectSpam(comments: YouTubeComment[]): Map<string, SpamReason> {
+  const flags = new Map<string, Set<SpamReason>>();
+  const flag = (id: string, reason: SpamReason) => {
+    const reasons = flags.get(id) || new Set<SpamReason>();
+    reasons.add(reason);
+    flags.set(id, reasons);
+  };
+
+  for (const comment of comments) {
+    if (isLinkSpam(comment.text)) flag(comment.id, "link-spam");
+  }
+
+  const ordered = [...comments].sort(byPublishedAt);
+  findDuplicates(ordered).forEach((reason, id) => flag(id, reason));
+  findBursts(ordered).forEach((id) => flag(id, "burst"));
+
+  const result = new Map<string, SpamReason>();
+  flags.forEach((reasons, id) => {
+    result.set(id, REASON_PRIORITY.find((reason) => reasons.has(reason))!);
+  });
+  return result;
+}
+
+/**
+ * Several links, or a link or contact handle alongside scam wording
+ */
+export function isLinkSpam(text: string): boolean {
+  const links = text.match(URL_PATTERN)?.length || 0;
+  if (links >= 2) return true;
+  if (links === 1 && SCAM_PATTERN.test(text)) return true;
+  return CONTACT_PATTERN.test(text);
+}
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKC")
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Estimated Jaccard similarity of two texts' shingle sets
+ */
+export function estimateSimilarity(a: string, b: string): number {
+  return compareSignatures(createTextSignature(a), createTextSignature(b));
+}
+
+/**
+ * MinHash signature of a text, for comparing many texts pairwise
+ */
+export function createTextSignature(text: string): number[] {
+  return minHash(shingles(normalizeText(text)));
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures
+ */
+export function compareSignatures(a: number[], b: number[]): number {
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
+
+/**
+ * Later copies of a text: exact matches first, then MinHash near-matches.
+ * `ordered` must be sorted by publishedAt.
+ */
+function findDuplicates(ordered: YouTubeComment[]): Map<string, SpamReason> {
+  const duplicates = new Map<string, SpamReason>();
+  const firstByText = new Map<string, string>();
+  const originals: Array<{ id: string; signature: number[] }> = [];
+  const buckets = new Map<string, number[]>(); // band key -> indices into originals
+
+  for (const comment of ordered) {
+    const text = normalizeText(comment.text);
+    if (text.length < MIN_DUPLICATE_LENGTH) continue;
+
+    if (firstByText.has(text)) {
+      duplicates.set(comment.id, "duplicate");
+      continue;
+    }
+    firstByText.set(text, comment.id);
+
+    const signature = minHash(shingles(text));
+    const bandKeys = Array.from({ length: MINHASH_BANDS }, (_, band) =>
+      `${band}:${signature.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(",")}`
+    );
+
+    const candidates = new Set(bandKeys.flatMap((key) => buckets.get(key) || []));
+    const isNearDuplicate = [...candidates].some(
+      (index) => compareSignatures(signature, originals[index].signature) >= NEAR_DUPLICATE_THRESHOLD
+    );
+    if (isNearDuplicate) {
+      duplicates.set(comment.id, "near-duplicate");
+      continue;
+    }
+
+    // Only originals are indexed, so a chain of small edits cannot drift far
+    const index = originals.push({ id: comment.id, signature }) - 1;
+    for (const key of bandKeys) {
+      const bucket = buckets.get(key) || [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Comments after the first in any window where one author posted
+ * BURST_MIN_COMMENTS or more. `ordered` must be sorted by publishedAt.
+ */
+function findBursts(ordered: YouTubeComment[]): Set<string> {
+  const byAuthor = new Map<string, YouTubeComment[]>();
+  for (const comment of ordered) {
+    const key = getAuthorKey(comment);
+    const authored = byAuthor.get(key) || [];
+    authored.push(comment);
+    byAuthor.set(key, authored);
+  }
+
+  const bursts = new Set<string>();
+  for (const authored of byAuthor.values()) {
+    if (authored.length < BURST_MIN_COMMENTS) continue;
+
+    const times = authored.map((c) => new Date(c.publishedAt).getTime());
+    let start = 0;
+    for (let end = 0; end < authored.length; end++) {
+      while (times[end] - times[start] > BURST_WINDOW_MS) start++;
+      if (end - start + 1 >= BURST_MIN_COMMENTS) {
+        for (let i = start + 1; i <= end; i++) bursts.add(authored[i].id);
+      }
+    }
+  }
+  return bursts;
+}
+
+function shingles(text: string): Set<number> {
+  const chars = Array.from(text);
+  const result = new Set<number>();
+  if (chars.length <= SHINGLE_SIZE) {
+    result.add(hashString(text));
+    return result;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= chars.length; i++) {
+    result.add(hashString(chars.slice(i, i + SHINGLE_SIZE).join("")));
+  }
+  return result;
+}
+
+function minHash(shingleHashes: Set<number>): number[] {
+  return MINHASH_SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const hash of shingleHashes) {
+      const value = mix32(hash ^ seed);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+}
+
+// FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function byPublishedAt(a: YouTubeComment, b: YouTubeComment): number {
+  return new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime();
+}
@@ -0,0 +1,11 @@
+/**
+ * Stance classes of a sentiment score, shared by the aggregation helpers
+ */
+
+export type StanceClass = "support" | "neutral" | "oppose";
+
+export function classifyStance(sentiment: number): StanceClass {
+  if (sentiment > 0.2) return "support";
+  if (sentiment < -0.2) return "oppose";
+  return "neutral";
+}
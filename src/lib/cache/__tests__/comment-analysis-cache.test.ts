@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  FileCommentAnalysisCache,
+  createCommentAnalysisKey,
+  hashAxisProfile,
+} from "../comment-analysis-cache";
+import { generateMockComment } from "@/lib/mock-data/generators";
+import type { AxisProfile, SentimentAnalysis, YouTubeComment } from "@/types";
+
+const context = { profileHash: "none", model: "mock", promptVersion: "1:rich" };
+
+function analysisFor(comment: YouTubeComment, score: number): SentimentAnalysis {
+  return { commentId: comment.id, score, weightedScore: score, emotions: [], isSarcasm: false };
+}
+
+describe("FileCommentAnalysisCache", () => {
+  let directory: string;
+  let cache: FileCommentAnalysisCache;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "comment-radar-cache-"));
+    cache = new FileCommentAnalysisCache(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return cached analyses for unchanged comments", async () => {
+    const comment = generateMockComment("video123", { updatedAt: "2026-01-01T00:00:00Z" });
+    const key = createCommentAnalysisKey(comment, context);
+
+    await cache.setMany("video123", [{ key, updatedAt: comment.updatedAt, analysis: analysisFor(comment, 0.5) }]);
+
+    const hits = await cache.getMany("video123", [{ key, updatedAt: comment.updatedAt }]);
+    expect(hits.get(comment.id)?.score).toBe(0.5);
+  });
+
+  it("should miss when the comment text changed", async () => {
+    const comment = generateMockComment("video123", { text: "Original" });
+    await cache.setMany("video123", [{ key: createCommentAnalysisKey(comment, context), analysis: analysisFor(comment, 0.5) }]);
+
+    const edited = { ...comment, text: "Edited" };
+    const hits = await cache.getMany("video123", [{ key: createCommentAnalysisKey(edited, context) }]);
+    expect(hits.size).toBe(0);
+  });
+
+  it("should miss when the comment was updated after caching", async () => {
+    const comment = generateMockComment("video123", { updatedAt: "2026-01-01T00:00:00Z" });
+    const key = createCommentAnalysisKey(comment, context);
+    await cache.setMany("video123", [{ key, updatedAt: comment.updatedAt, analysis: analysisFor(comment, 0.5) }]);
+
+    const hits = await cache.getMany("video123", [{ key, updatedAt: "2026-01-02T00:00:00Z" }]);
+    expect(hits.size).toBe(0);
+  });
+
+  it("should miss for a different model, profile or prompt version", async () => {
+    const comment = generateMockComment("video123");
+    await cache.setMany("video123", [{ key: createCommentAnalysisKey(comment, context), analysis: analysisFor(comment, 0.5) }]);
+
+    const lookups = [
+      { ...context, model: "other" },
+      { ...context, profileHash: "abc" },
+      { ...context, promptVersion: "1:lite" },
+    ].map((other) => ({ key: createCommentAnalysisKey(comment, other) }));
+
+    const hits = await cache.getMany("video123", lookups);
+    expect(hits.size).toBe(0);
+  });
+
+  it("should replace older text versions in the same context", async () => {
+    const comment = generateMockComment("video123", { text: "Original" });
+    const edited = { ...comment, text: "Edited" };
+
+    await cache.setMany("video123", [{ key: createCommentAnalysisKey(comment, context), analysis: analysisFor(comment, 0.5) }]);
+    await cache.setMany("video123", [{ key: createCommentAnalysisKey(edited, context), analysis: analysisFor(edited, -0.5) }]);
+
+    const file = JSON.parse(await fs.readFile(path.join(directory, "video123.json"), "utf-8"));
+    expect(file[comment.id]).toHaveLength(1);
+
+    const hits = await cache.getMany("video123", [{ key: createCommentAnalysisKey(edited, context) }]);
+    expect(hits.get(comment.id)?.score).toBe(-0.5);
+  });
+});
+
+describe("hashAxisProfile", () => {
+  it("should ignore the generation timestamp", () => {
+    const profile = { videoId: "v1", mainAxis: "Axis", generatedAt: "2026-01-01T00:00:00Z" } as AxisProfile;
+
+    expect(hashAxisProfile(profile)).toBe(hashAxisProfile({ ...profile, generatedAt: "2026-02-01T00:00:00Z" }));
+    expect(hashAxisProfile(profile)).not.toBe(hashAxisProfile({ ...profile, mainAxis: "Other" }));
+    expect(hashAxisProfile(undefined)).toBe("none");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Comment Analysis Cache - Server-side cache of per-comment LLM results
+ *
+ * Entries are keyed by (comment id, text hash, axis-profile hash, model,
+ * prompt version) so re-analyzing a video only sends new or edited comments
+ * to the LLM. An entry is also treated as stale when the comment's
+ * `updatedAt` is newer than the one recorded with it.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import type { AxisProfile, SentimentAnalysis, YouTubeComment } from "@/types";
+
+export interface CommentAnalysisKey {
+  commentId: string;
+  textHash: string;
+  profileHash: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface CommentCacheLookup {
+  key: CommentAnalysisKey;
+  updatedAt?: string;
+}
+
+export interface CommentCacheEntry extends CommentCacheLookup {
+  analysis: SentimentAnalysis;
+  cachedAt: string;
+}
+
+export interface CommentAnalysisCache {
+  /**
+   * Return cached analyses for the given lookups, keyed by comment ID
+   */
+  getMany(videoId: string, lookups: CommentCacheLookup[]): Promise<Map<string, SentimentAnalysis>>;
+
+  /**
+   * Store analyses, replacing older entries for the same comment and context
+   */
+  setMany(videoId: string, entries: Array<Omit<CommentCacheEntry, "cachedAt">>): Promise<void>;
+}
+
+/**
+ * Short SHA-256 digest used in cache keys
+ */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+/**
+ * Hash the stance-relevant part of an Axis Profile (ignores generation time)
+ */
+export function hashAxisProfile(profile?: AxisProfile): string {
+  if (!profile) return "none";
+
+  const content: Partial<AxisProfile> = { ...profile };
+  delete content.generatedAt;
+  return hashText(JSON.stringify(content));
+}
+
+export function createCommentAnalysisKey(
+  comment: YouTubeComment,
+  context: { profileHash: string; model: string; promptVersion: string }
+): CommentAnalysisKey {
+  return {
+    commentId: comment.id,
+    textHash: hashText(comment.text),
+    ...context,
+  };
+}
+
+function sameContext(a: CommentAnalysisKey, b: CommentAnalysisKey): boolean {
+  return a.profileHash === b.profileHash && a.model === b.model && a.promptVersion === b.promptVersion;
+}
+
+function isEntryValid(entry: CommentCacheEntry, lookup: CommentCacheLookup): boolean {
+  if (!sameContext(entry.key, lookup.key) || entry.key.textHash !== lookup.key.textHash) {
+    return false;
+  }
+
+  // The comment was edited after the cached analysis was produced
+  if (lookup.updatedAt && entry.updatedAt && new Date(lookup.updatedAt) > new Date(entry.updatedAt)) {
+    return false;
+  }
+
+  return true;
+}
+
+type VideoCacheFile = Record<string, CommentCacheEntry[]>;
+
+/**
+ * File-backed cache storing one JSON document per video
+ */
+export class FileCommentAnalysisCache implements CommentAnalysisCache {
+  constructor(private readonly directory: string) {}
+
+  async getMany(videoId: string, lookups: CommentCacheLookup[]): Promise<Map<string, SentimentAnalysis>> {
+    const file = await this.read(videoId);
+    const hits = new Map<string, SentimentAnalysis>();
+
+    for (const lookup of lookups) {
+      const entry = file[lookup.key.commentId]?.find((candidate) => isEntryValid(candidate, lookup));
+      if (entry) {
+        hits.set(lookup.key.commentId, entry.analysis);
+      }
+    }
+
+    return hits;
+  }
+
+  async setMany(videoId: string, entries: Array<Omit<CommentCacheEntry, "cachedAt">>): Promise<void> {
+    if (entries.length === 0) return;
+
+    const file = await this.read(videoId);
+    const cachedAt = new Date().toISOString();
+
+    for (const entry of entries) {
+      const { commentId } = entry.key;
+      // Older text versions under the same context are obsolete
+      const others = (file[commentId] || []).filter((existing) => !sameContext(existing.key, entry.key));
+      file[commentId] = [...others, { ...entry, cachedAt }];
+    }
+
+    await this.write(videoId, file);
+  }
+
+  private filePath(videoId: string): string {
+    return path.join(this.directory, `${videoId.replace(/[^a-zA-Z0-9_-]/g, "")}.json`);
+  }
+
+  private async read(videoId: string): Promise<VideoCacheFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(videoId), "utf-8")) as VideoCacheFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private async write(videoId: string, file: VideoCacheFile): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const target = this.filePath(videoId);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(file), "utf-8");
+    await fs.rename(temp, target);
+  }
+}
+
+// Keep a single cache across hot reloads in development
+const globalForCache = globalThis as unknown as { commentAnalysisCache?: CommentAnalysisCache | null };
+
+/**
+ * Shared cache for API routes
+ *
+ * COMMENT_CACHE=file (default) stores entries under COMMENT_CACHE_DIR
+ * (default: .data/comment-cache); COMMENT_CACHE=none disables it.
+ */
+export function getCommentAnalysisCache(): CommentAnalysisCache | null {
+  if (globalForCache.commentAnalysisCache === undefined) {
+    globalForCache.commentAnalysisCache =
+      process.env.COMMENT_CACHE === "none"
+        ? null
+        : new FileCommentAnalysisCache(
+            process.env.COMMENT_CACHE_DIR || path.join(process.cwd(), ".data", "comment-cache")
+          );
+  }
+  return globalForCache.commentAnalysisCache;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getCurrentEngineType } from "../factory";
+
+describe("engine selection", () => {
+  beforeEach(() => {
+    vi.stubEnv("USE_MOCK_ENGINE", "");
+    vi.stubEnv("LLM_ENGINE", "");
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("defaults to the mock engine without any LLM configuration", () => {
+    expect(getCurrentEngineType()).toBe("mock");
+  });
+
+  it("selects the LLM engine from LLM_PROVIDER_CHAIN alone", () => {
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "groq, gemini");
+
+    expect(getCurrentEngineType()).toBe("groq");
+  });
+
+  it("rejects a chain without a known provider", () => {
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "anthropic");
+
+    expect(() => getCurrentEngineType()).toThrow(/LLM_PROVIDER_CHAIN/);
+  });
+
+  it("prefers USE_MOCK_ENGINE", () => {
+    vi.stubEnv("USE_MOCK_ENGINE", "true");
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "groq");
+
+    expect(getCurrentEngineType()).toBe("mock");
+  });
+});
@@ -8,8 +8,9 @@ import type { AnalysisEngine } from "./types";
 import type { AnalysisEngineConfig } from "@/types";
 import { MockEngine } from "./mock-engine";
 import { AnalysisService } from "../service/analysis-service";
+import { getProviderChain } from "../llm/provider";
 
-export type EngineType = "mock" | "gemini" | "openai" | "groq";
+export type EngineType = "mock" | "gemini" | "openai" | "groq" | "openai-compatible";
 
 interface EngineFactoryConfig {
   type?: EngineType;
@@ -57,6 +58,19 @@ function getEngineTypeFromEnv(): EngineType {
     return "openai";
   }
 
+  if (llmEngine === "openai-compatible") {
+    return "openai-compatible";
+  }
+
+  // A failover chain on its own selects the LLM engine
+  if (process.env.LLM_PROVIDER_CHAIN?.trim()) {
+    const [first] = getProviderChain();
+    if (!first) {
+      throw new Error(`LLM_PROVIDER_CHAIN names no known provider: ${process.env.LLM_PROVIDER_CHAIN}`);
+    }
+    return first;
+  }
+
   // Default to mock for safety
   return "mock";
 }
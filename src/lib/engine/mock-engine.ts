@@ -91,6 +91,10 @@ export class MockEngine implements AnalysisEngine {
     this.config = { ...this.config, ...config };
   }
 
+  getModelId(): string {
+    return "mock";
+  }
+
   // Private helper methods
 
   private generateSentimentScore(comment: YouTubeComment): SentimentScore {
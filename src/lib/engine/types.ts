@@ -14,6 +14,7 @@ import type {
   BatchAnalysisResponse,
   AnalysisEngineConfig,
 } from "@/types";
+import type { UsageRecorder } from "@/lib/usage/ledger";
 
 /**
  * Core interface for sentiment analysis engines
@@ -44,6 +45,11 @@ export interface AnalysisEngine {
    */
   generateAxisProfile?(video: { id: string; title: string; channelName: string; description?: string; transcript?: string }): Promise<import("@/types").AxisProfile>;
 
+  /**
+   * Analyze a batch of comments against an Axis Profile (stance-based analysis)
+   */
+  analyzeAxisBatch?(request: BatchAnalysisRequest, axisProfile: import("@/types").AxisProfile): Promise<BatchAnalysisResponse>;
+
   /**
    * Get engine configuration
    */
@@ -53,6 +59,16 @@ export interface AnalysisEngine {
    * Update engine configuration
    */
   updateConfig(config: Partial<AnalysisEngineConfig>): void;
+
+  /**
+   * Identifier of the model producing analyses (e.g. "groq.chat:llama-3.3-70b-versatile")
+   */
+  getModelId?(): string;
+
+  /**
+   * Receive token usage of every LLM/embedding call made from now on
+   */
+  setUsageRecorder?(recorder: UsageRecorder | null): void;
 }
 
 /**
@@ -8,10 +8,28 @@ export const translations = {
             loading: "Analyzing video comments...",
             error: "Error",
             retry: "Retry",
+            refresh: "Fetch new comments",
+        },
+        nav: {
+            analyze: "Analyze",
+            compare: "Compare",
+            channel: "Channel",
+            playlist: "Playlist",
+        },
+        progress: {
+            video: "Video fetched",
+            transcript: "Transcript fetched",
+            summary: "Context summary ready",
+            axisProfile: "Axis profile ready",
+            comments: "Comments fetched",
+            cached: "Loaded cached results",
+            filtered: "Filtered spam comments",
+            batches: "Analyzing batches",
         },
         quota: {
             title: "API Quota Limitation",
             message: "Some comments were analyzed using a neutral fallback due to API rate limits. The overview is still representative, but individual analysis for some comments may be missing details.",
+            usage: "YouTube API quota today",
         },
         video: {
             views: "Views",
@@ -32,6 +50,20 @@ export const translations = {
             engagement: "Likes",
             sentiment: "Stance Score",
             time: "Time (Hours)",
+            confidenceInterval: "{level}% confidence interval",
+            likeWeighted: "Like-weighted average",
+            cumulative: "Cumulative",
+            granularity: "Time buckets",
+            granularities: {
+                auto: "Auto",
+                hour: "Hourly",
+                day: "Daily",
+                week: "Weekly",
+            },
+            timelineViews: {
+                average: "Average",
+                breakdown: "Breakdown",
+            },
         },
         comments: {
             title: "Comment Radar",
@@ -43,7 +75,152 @@ export const translations = {
             negative: "Oppose",
             sarcasm: "Sarcasm Detected",
             repeatUser: "Repeat User",
-        }
+        },
+        options: {
+            title: "Advanced options",
+            serverDefault: "Server default",
+            mode: "Analysis mode",
+            modeAxis: "Stance (axis)",
+            modeLegacy: "Sentiment (legacy)",
+            maxComments: "Max comments",
+            richTier: "Detailed analysis for top",
+            provider: "LLM provider",
+            includeReplies: "Include replies",
+            order: "Comment order",
+            orderRelevance: "Top comments",
+            orderTime: "Newest first",
+            language: "Output language",
+            sampling: "Sampling",
+        },
+        authors: {
+            title: "Most Active Commenters",
+            description: "Authors with several comments on this video; their extra comments count half in the distribution",
+            comments: "{count} comments",
+            avgStance: "Average stance",
+            flipFlop: "Mixed",
+            flipFlopHint: "Has both supporting and opposing comments",
+        },
+        compare: {
+            title: "Compare Videos",
+            description: "Analyze several videos, or pick stored analyses, to compare reactions across a series or competing channels",
+            placeholder: "Paste YouTube video URLs, one per line",
+            submit: "Compare",
+            stored: "Stored analyses",
+            limit: "Up to {max} videos can be compared at once",
+            remove: "Remove",
+            tableTitle: "Overview",
+            video: "Video",
+            mainAxis: "Main axis",
+            creatorPosition: "Creator's position",
+            noProfile: "–",
+            timelineTitle: "Stance Over Time",
+            timelineDescription: "Average stance by hours since each video was published",
+        },
+        channel: {
+            title: "Analyze a Channel",
+            description: "Analyze a channel's most recent uploads to see how reactions differ between videos and who keeps coming back",
+            placeholder: "Channel URL or @handle",
+            submit: "Analyze Channel",
+            maxVideos: "Videos",
+            commentsPerVideo: "Comments per video",
+            progress: "Analyzing video {index} of {total}",
+            videosTitle: "Recent Uploads",
+            published: "Published",
+            avgSentiment: "Avg. stance",
+            failed: "Not analyzed",
+            trendTitle: "Stance Across Uploads",
+            trendDescription: "Share of supporting and opposing comments on each upload, oldest first",
+            supportShare: "Support",
+            opposeShare: "Oppose",
+            subscribers: "{count} subscribers",
+        },
+        playlist: {
+            title: "Analyze a Playlist",
+            description: "Queue an analysis of every video in a playlist and see how reactions add up across the series",
+            placeholder: "Playlist URL (with list=)",
+            submit: "Analyze Playlist",
+            maxVideos: "Videos",
+            cancel: "Cancel",
+            statusHeader: "Status",
+            queued: "{done} of {total} videos analyzed",
+            redirect: "Playlist URL detected; opening the playlist analysis",
+            open: "Open",
+            overallTitle: "Whole Playlist",
+            status: {
+                queued: "Queued",
+                running: "Analyzing",
+                completed: "Done",
+                failed: "Failed",
+                cancelled: "Cancelled",
+            },
+        },
+        recurring: {
+            title: "Recurring Commenters",
+            description: "Authors who commented on two or more of these videos",
+            none: "No author commented on more than one of these videos",
+            author: "Author",
+            videos: "Videos",
+            avgSentiment: "Avg. stance",
+        },
+        events: {
+            title: "Coordinated Activity",
+            description: "Bursts of unusually many comments with a sudden stance shift, such as a wave of visitors from an external link",
+            label: "Surge",
+            comments: "{count} comments (about {expected} expected)",
+            shift: "{stance} share +{shift} pts",
+            newAuthors: "{share}% first-time commenters",
+            similarity: "{similarity}% text similarity",
+        },
+        spam: {
+            note: "{count} comments filtered as spam are excluded",
+            label: "Spam",
+            reasons: {
+                duplicate: "Copy of an earlier comment",
+                "near-duplicate": "Near-copy of an earlier comment",
+                "link-spam": "Link or contact spam",
+                burst: "Part of a burst from the same author",
+            },
+        },
+        sampling: {
+            note: "Based on {sampled} of {total} comments ({rate}%), sampled by {strategy}",
+            strategies: {
+                "top-likes": "most likes",
+                "like-weighted": "like-weighted random",
+                random: "uniform random",
+                "time-stratified": "time-stratified",
+                "thread-complete": "complete threads",
+            },
+        },
+        estimate: {
+            title: "Estimated cost of this analysis",
+            estimating: "Estimating...",
+            comments: "Comments analyzed",
+            rich: "detailed",
+            lite: "lite",
+            batches: "LLM batches",
+            tokens: "Tokens",
+            cost: "Estimated cost",
+            unknownCost: "Unknown (no price data)",
+            duration: "Estimated time",
+            model: "Model",
+            confirm: "Run analysis",
+            cancel: "Cancel",
+        },
+        usage: {
+            title: "LLM Usage",
+            tokens: "Tokens",
+            cost: "Estimated cost",
+            calls: "Calls",
+            phase: "Phase",
+            unpriced: "No price data for",
+            phases: {
+                summary: "Context summary",
+                axisProfile: "Axis profile",
+                embeddings: "Embeddings (RAG)",
+                richBatches: "Rich batches",
+                liteBatches: "Lite batches",
+            },
+        },
     },
     ja: {
         common: {
@@ -54,10 +231,28 @@ export const translations = {
             loading: "コメントを分析中...",
             error: "エラー",
             retry: "再試行",
+            refresh: "新しいコメントを取得",
+        },
+        nav: {
+            analyze: "分析",
+            compare: "比較",
+            channel: "チャンネル",
+            playlist: "再生リスト",
+        },
+        progress: {
+            video: "動画情報を取得しました",
+            transcript: "字幕を取得しました",
+            summary: "動画の要約を生成しました",
+            axisProfile: "論点プロファイルを生成しました",
+            comments: "コメントを取得しました",
+            cached: "キャッシュ済みの結果を読み込みました",
+            filtered: "スパムコメントを除外しました",
+            batches: "バッチを分析中",
         },
         quota: {
             title: "API利用制限",
             message: "APIの利用制限により、一部のコメントは中立的な評価として処理されました。全体の傾向は把握可能ですが、個別の詳細な分析が欠けている場合があります。",
+            usage: "本日のYouTube APIクォータ",
         },
         video: {
             views: "再生回数",
@@ -78,6 +273,20 @@ export const translations = {
             engagement: "いいね数",
             sentiment: "スタンススコア",
             time: "経過時間（時間）",
+            confidenceInterval: "{level}%信頼区間",
+            likeWeighted: "高評価で重み付けした平均",
+            cumulative: "累積",
+            granularity: "集計単位",
+            granularities: {
+                auto: "自動",
+                hour: "1時間ごと",
+                day: "1日ごと",
+                week: "1週間ごと",
+            },
+            timelineViews: {
+                average: "平均",
+                breakdown: "内訳",
+            },
         },
         comments: {
             title: "コメントレーダー",
@@ -89,7 +298,152 @@ export const translations = {
             negative: "反対",
             sarcasm: "皮肉を検出",
             repeatUser: "リピーター",
-        }
+        },
+        options: {
+            title: "詳細オプション",
+            serverDefault: "サーバー設定",
+            mode: "分析モード",
+            modeAxis: "スタンス（軸）",
+            modeLegacy: "感情（従来）",
+            maxComments: "最大コメント数",
+            richTier: "詳細分析する上位件数",
+            provider: "LLMプロバイダー",
+            includeReplies: "返信を含める",
+            order: "コメントの順序",
+            orderRelevance: "人気順",
+            orderTime: "新しい順",
+            language: "出力言語",
+            sampling: "サンプリング",
+        },
+        authors: {
+            title: "よくコメントするユーザー",
+            description: "この動画に複数コメントしたユーザー。2件目以降のコメントは分布で0.5件として数えます",
+            comments: "{count}件のコメント",
+            avgStance: "平均スタンス",
+            flipFlop: "賛否混在",
+            flipFlopHint: "賛成と反対の両方のコメントがあります",
+        },
+        compare: {
+            title: "動画を比較",
+            description: "複数の動画を分析するか保存済みの分析を選んで、シリーズや競合チャンネル間の反応を比較します",
+            placeholder: "YouTube動画のURLを1行に1つずつ貼り付け",
+            submit: "比較",
+            stored: "保存済みの分析",
+            limit: "一度に比較できる動画は{max}本までです",
+            remove: "削除",
+            tableTitle: "概要",
+            video: "動画",
+            mainAxis: "主な論点",
+            creatorPosition: "投稿者の立場",
+            noProfile: "–",
+            timelineTitle: "賛否の推移",
+            timelineDescription: "各動画の公開からの経過時間ごとの平均スタンス",
+        },
+        channel: {
+            title: "チャンネルを分析",
+            description: "チャンネルの最新動画をまとめて分析し、動画ごとの反応の違いや繰り返しコメントするユーザーを確認します",
+            placeholder: "チャンネルURLまたは@ハンドル",
+            submit: "チャンネルを分析",
+            maxVideos: "動画数",
+            commentsPerVideo: "動画あたりのコメント数",
+            progress: "{total}本中{index}本目を分析中",
+            videosTitle: "最新の動画",
+            published: "公開日",
+            avgSentiment: "平均スタンス",
+            failed: "分析できませんでした",
+            trendTitle: "動画ごとの賛否の推移",
+            trendDescription: "各動画の賛成・反対コメントの割合（古い順）",
+            supportShare: "賛成",
+            opposeShare: "反対",
+            subscribers: "登録者 {count}人",
+        },
+        playlist: {
+            title: "再生リストを分析",
+            description: "再生リストのすべての動画の分析をキューに入れ、シリーズ全体の反応を確認します",
+            placeholder: "再生リストのURL（list=を含む）",
+            submit: "再生リストを分析",
+            maxVideos: "動画数",
+            cancel: "キャンセル",
+            statusHeader: "状態",
+            queued: "{total}本中{done}本の分析が完了",
+            redirect: "再生リストのURLです。再生リストの分析を開きます",
+            open: "開く",
+            overallTitle: "再生リスト全体",
+            status: {
+                queued: "待機中",
+                running: "分析中",
+                completed: "完了",
+                failed: "失敗",
+                cancelled: "キャンセル",
+            },
+        },
+        recurring: {
+            title: "繰り返しコメントするユーザー",
+            description: "これらの動画のうち2本以上にコメントしたユーザー",
+            none: "複数の動画にコメントしたユーザーはいません",
+            author: "ユーザー",
+            videos: "動画数",
+            avgSentiment: "平均スタンス",
+        },
+        events: {
+            title: "組織的な動きの検出",
+            description: "コメント数が急増し、賛否の割合が急に変化した時間帯です（外部リンクからの流入など）",
+            label: "急増",
+            comments: "{count}件（通常は約{expected}件）",
+            shift: "{stance}の割合 +{shift}ポイント",
+            newAuthors: "初コメントの投稿者 {share}%",
+            similarity: "文面の類似度 {similarity}%",
+        },
+        spam: {
+            note: "スパムと判定された{count}件のコメントは集計から除外しています",
+            label: "スパム",
+            reasons: {
+                duplicate: "以前のコメントの複製",
+                "near-duplicate": "以前のコメントとほぼ同一",
+                "link-spam": "リンク・連絡先のスパム",
+                burst: "同じ投稿者による短時間の連投",
+            },
+        },
+        sampling: {
+            note: "{total}件中{sampled}件（{rate}%）に基づく・抽出方法: {strategy}",
+            strategies: {
+                "top-likes": "高評価順",
+                "like-weighted": "高評価で重み付けしたランダム",
+                random: "単純ランダム",
+                "time-stratified": "時間帯で層化",
+                "thread-complete": "スレッド単位",
+            },
+        },
+        estimate: {
+            title: "この分析の推定コスト",
+            estimating: "見積もり中...",
+            comments: "分析するコメント",
+            rich: "詳細",
+            lite: "簡易",
+            batches: "LLMバッチ数",
+            tokens: "トークン",
+            cost: "推定コスト",
+            unknownCost: "不明（価格情報なし）",
+            duration: "推定所要時間",
+            model: "モデル",
+            confirm: "分析を実行",
+            cancel: "キャンセル",
+        },
+        usage: {
+            title: "LLM使用量",
+            tokens: "トークン",
+            cost: "推定コスト",
+            calls: "呼び出し",
+            phase: "フェーズ",
+            unpriced: "価格情報なし",
+            phases: {
+                summary: "動画の要約",
+                axisProfile: "論点プロファイル",
+                embeddings: "埋め込み (RAG)",
+                richBatches: "詳細バッチ",
+                liteBatches: "簡易バッチ",
+            },
+        },
     }
 };
 
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { MemoryJobStore } from "../memory-store";
+import type { AnalysisJob, JobStatus } from "../types";
+
+function createJob(id: string, status: JobStatus, finishedAt?: string): AnalysisJob {
+  const createdAt = "2024-01-01T00:00:00.000Z";
+  return {
+    id,
+    url: "https://youtu.be/abcdefghijk",
+    videoId: "abcdefghijk",
+    status,
+    progress: { completedBatches: 0, totalBatches: 0 },
+    createdAt,
+    updatedAt: finishedAt || createdAt,
+    finishedAt,
+  };
+}
+
+describe("MemoryJobStore", () => {
+  it("should evict finished jobs older than the TTL", async () => {
+    let now = new Date("2024-01-01T01:00:00.000Z");
+    const store = new MemoryJobStore({ finishedTtlMs: 60 * 60 * 1000, now: () => now });
+
+    await store.create(createJob("done", "completed", "2024-01-01T00:30:00.000Z"));
+    await store.create(createJob("running", "running"));
+    expect(await store.get("done")).not.toBeNull();
+
+    now = new Date("2024-01-01T02:00:00.000Z");
+
+    expect(await store.get("done")).toBeNull();
+    expect(await store.get("running")).not.toBeNull();
+  });
+
+  it("should keep at most maxFinishedJobs finished jobs, dropping the oldest", async () => {
+    const store = new MemoryJobStore({ maxFinishedJobs: 2, now: () => new Date("2024-01-01T01:00:00.000Z") });
+
+    await store.create(createJob("a", "completed", "2024-01-01T00:01:00.000Z"));
+    await store.create(createJob("b", "failed", "2024-01-01T00:02:00.000Z"));
+    await store.create(createJob("queued", "queued"));
+    await store.create(createJob("c", "running"));
+    await store.update("c", { status: "completed", finishedAt: "2024-01-01T00:03:00.000Z" });
+
+    const ids = (await store.list()).map((job) => job.id).sort();
+    expect(ids).toEqual(["b", "c", "queued"]);
+  });
+});
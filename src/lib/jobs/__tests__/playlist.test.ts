@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import { JobQueue } from "../queue";
+import { MemoryJobStore } from "../memory-store";
+import { cancelPlaylistBatch, enqueuePlaylistBatch, getPlaylistBatch } from "../playlist";
+import type { JobRunner } from "../types";
+import { buildVideoAnalysis } from "@/lib/analysis/aggregate";
+import { generateMockAnalyzedComment, generateMockVideo } from "@/lib/mock-data/generators";
+import { AnalysisError, type YouTubePlaylist } from "@/types";
+
+const playlist: YouTubePlaylist = {
+  id: "PL123",
+  title: "Series",
+  channelName: "Creator",
+  thumbnailUrl: "",
+  itemCount: 3,
+};
+
+const items = ["a", "b", "c"].map((videoId, position) => ({
+  videoId,
+  title: `Video ${videoId}`,
+  publishedAt: "2024-01-01T00:00:00Z",
+  position,
+}));
+
+const runner: JobRunner = async (job) => {
+  if (job.videoId === "b") throw new AnalysisError("No comments found for this video", "NO_COMMENTS");
+  return buildVideoAnalysis(
+    generateMockVideo({ id: job.videoId }),
+    [generateMockAnalyzedComment(job.videoId, { author: "alice", authorChannelId: "channel-alice", sentiment: 0.5 })]
+  );
+};
+
+describe("playlist batches", () => {
+  it("queues a job per video and reports once all have finished", async () => {
+    const queue = new JobQueue(new MemoryJobStore(), runner, { concurrency: 1 });
+
+    const batch = await enqueuePlaylistBatch(queue, { playlist, items, options: { maxComments: 50 } });
+    expect(batch.videos.map((v) => v.videoId)).toEqual(["a", "b", "c"]);
+    expect(batch.report).toBeUndefined();
+
+    await queue.idle();
+    const finished = await getPlaylistBatch(queue, batch.id);
+
+    expect(finished?.status).toBe("finished");
+    expect(finished?.videos.map((v) => v.status)).toEqual(["completed", "failed", "completed"]);
+    expect(finished?.report?.videos.map((v) => v.videoId)).toEqual(["a", "c"]);
+    expect(finished?.report?.failedVideos).toEqual([
+      { videoId: "b", title: "Video b", error: "No comments found for this video" },
+    ]);
+    expect(finished?.report?.distribution).toMatchObject({ support: 2, total: 2, uniqueUsers: 1 });
+    expect(finished?.report?.recurringCommenters.map((c) => c.author)).toEqual(["alice"]);
+
+    // Each video's analysis stays available on its own job
+    const job = await queue.get(finished!.videos[0].jobId);
+    expect(job?.result?.video.id).toBe("a");
+    expect(job?.options).toEqual({ maxComments: 50 });
+  });
+
+  it("reads only the batch's jobs and keeps the finished batch", async () => {
+    const queue = new JobQueue(new MemoryJobStore(), runner, { concurrency: 1 });
+    const list = vi.spyOn(queue, "list");
+    const get = vi.spyOn(queue, "get");
+
+    const batch = await enqueuePlaylistBatch(queue, { playlist, items });
+    await queue.idle();
+
+    const finished = await getPlaylistBatch(queue, batch.id);
+    expect(get).toHaveBeenCalledTimes(3);
+
+    expect(await getPlaylistBatch(queue, batch.id)).toBe(finished);
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it("cancels the unfinished jobs of a batch", async () => {
+    // Runs until cancelled
+    const blockingRunner: JobRunner = (_job, { signal }) => new Promise((_resolve, reject) => {
+      signal.addEventListener("abort", () => reject(new AnalysisError("Analysis was cancelled", "CANCELLED")));
+    });
+    const queue = new JobQueue(new MemoryJobStore(), blockingRunner, { concurrency: 1 });
+    const batch = await enqueuePlaylistBatch(queue, { playlist, items });
+
+    const cancelled = await cancelPlaylistBatch(queue, batch.id);
+    await queue.idle();
+
+    expect(cancelled?.status).toBe("finished");
+    expect(cancelled?.videos.every((v) => v.status === "cancelled")).toBe(true);
+    expect(await getPlaylistBatch(queue, "unknown")).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { JobQueue } from "../queue";
+import { FileJobStore } from "../file-store";
+import type { JobRunner } from "../types";
+import { buildVideoAnalysis } from "@/lib/analysis/aggregate";
+import { generateMockVideo, generateMockAnalyzedComments } from "@/lib/mock-data/generators";
+import { AnalysisError } from "@/types";
+
+const input = { url: "https://youtu.be/abcdefghijk", videoId: "abcdefghijk" };
+
+function createAnalysis() {
+  const video = generateMockVideo({ id: input.videoId });
+  return buildVideoAnalysis(video, generateMockAnalyzedComments(video.id, 5));
+}
+
+/**
+ * Runner that waits until released (or aborted) so tests control timing
+ */
+function createControlledRunner() {
+  let release: () => void = () => undefined;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const runner: JobRunner = async (_job, { signal, onProgress }) => {
+    const partial = createAnalysis();
+    onProgress({ type: "video", video: partial.video });
+    onProgress({ type: "comments", total: 100, totalBatches: 2 });
+    onProgress({ type: "batch", comments: partial.comments.slice(0, 2), completedBatches: 1, totalBatches: 2 });
+
+    await Promise.race([
+      released,
+      new Promise((resolve) => signal.addEventListener("abort", resolve)),
+    ]);
+    if (signal.aborted) throw new AnalysisError("Analysis was cancelled", "CANCELLED");
+
+    return createAnalysis();
+  };
+
+  return { runner, release };
+}
+
+describe("JobQueue", () => {
+  let directory: string;
+  let store: FileJobStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "comment-radar-jobs-"));
+    store = new FileJobStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should run a job to completion and store the result", async () => {
+    const queue = new JobQueue(store, async () => createAnalysis());
+
+    const job = await queue.enqueue(input);
+    expect(job.status).toBe("queued");
+
+    await queue.idle();
+
+    const finished = await queue.get(job.id);
+    expect(finished?.status).toBe("completed");
+    expect(finished?.result?.comments).toHaveLength(5);
+    expect(finished?.finishedAt).toBeDefined();
+  });
+
+  it("should record progress while running", async () => {
+    const { runner, release } = createControlledRunner();
+    const queue = new JobQueue(store, runner);
+
+    const job = await queue.enqueue(input);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const running = await queue.get(job.id);
+    expect(running?.status).toBe("running");
+    expect(running?.progress).toMatchObject({ phase: "batch", completedBatches: 1, totalBatches: 2, totalComments: 100 });
+    // Partial results for progressive rendering
+    expect(running?.progress.video?.id).toBe(input.videoId);
+    expect(running?.progress.comments).toHaveLength(2);
+
+    release();
+    await queue.idle();
+    const finished = await queue.get(job.id);
+    expect(finished?.status).toBe("completed");
+    expect(finished?.progress.comments).toBeUndefined();
+  });
+
+  it("should store a described error when the runner fails", async () => {
+    const queue = new JobQueue(store, async () => {
+      throw Object.assign(new Error("Video not found"), { code: "VIDEO_NOT_FOUND" });
+    });
+
+    const job = await queue.enqueue(input);
+    await queue.idle();
+
+    const failed = await queue.get(job.id);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.error).toEqual({ message: "Video not found. Please check the URL.", status: 404 });
+  });
+
+  it("should cancel a running job", async () => {
+    const { runner } = createControlledRunner();
+    const queue = new JobQueue(store, runner);
+
+    const job = await queue.enqueue(input);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const cancelled = await queue.cancel(job.id);
+    expect(cancelled?.status).toBe("cancelled");
+
+    await queue.idle();
+    const stored = await queue.get(job.id);
+    expect(stored?.status).toBe("cancelled");
+    expect(stored?.result).toBeUndefined();
+  });
+
+  it("should cancel a queued job before it starts", async () => {
+    const { runner, release } = createControlledRunner();
+    const queue = new JobQueue(store, runner, { concurrency: 1 });
+
+    const first = await queue.enqueue(input);
+    const second = await queue.enqueue(input);
+
+    expect((await queue.cancel(second.id))?.status).toBe("cancelled");
+
+    release();
+    await queue.idle();
+
+    expect((await queue.get(first.id))?.status).toBe("completed");
+    expect((await queue.get(second.id))?.startedAt).toBeUndefined();
+  });
+
+  it("should return null for unknown jobs", async () => {
+    const queue = new JobQueue(store, async () => createAnalysis());
+
+    expect(await queue.get("missing")).toBeNull();
+    expect(await queue.cancel("missing")).toBeNull();
+  });
+});
+
+describe("FileJobStore", () => {
+  it("should persist jobs across store instances", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "comment-radar-jobs-"));
+    try {
+      const now = new Date().toISOString();
+      await new FileJobStore(directory).create({
+        ...input,
+        id: "job-1",
+        status: "queued",
+        progress: { completedBatches: 0, totalBatches: 0 },
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const reopened = new FileJobStore(directory);
+      expect((await reopened.get("job-1"))?.videoId).toBe(input.videoId);
+      expect(await reopened.list()).toHaveLength(1);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * File-backed job store
+ *
+ * Stores one JSON document per job in a directory. Survives process restarts
+ * on a single host and keeps tests free of shared in-memory state.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { AnalysisJob, JobStore } from "./types";
+
+export class FileJobStore implements JobStore {
+  constructor(private readonly directory: string) {}
+
+  async create(job: AnalysisJob): Promise<void> {
+    await this.write(job);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    try {
+      const content = await fs.readFile(this.filePath(id), "utf-8");
+      return JSON.parse(content) as AnalysisJob;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async update(id: string, patch: Partial<Omit<AnalysisJob, "id">>): Promise<AnalysisJob | null> {
+    const job = await this.get(id);
+    if (!job) return null;
+
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    await this.write(updated);
+    return updated;
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const jobs = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.get(path.basename(file, ".json")))
+    );
+    return jobs.filter((job): job is AnalysisJob => job !== null);
+  }
+
+  private filePath(id: string): string {
+    // Job IDs are UUIDs; strip anything that could escape the directory
+    return path.join(this.directory, `${id.replace(/[^a-zA-Z0-9_-]/g, "")}.json`);
+  }
+
+  private async write(job: AnalysisJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write atomically so readers never see a half-written document
+    const target = this.filePath(job.id);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job), "utf-8");
+    await fs.rename(temp, target);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Shared job queue for API routes
+ *
+ * JOB_STORE=file persists jobs under JOB_STORE_DIR (default: .data/jobs);
+ * otherwise jobs are kept in memory, where finished jobs are evicted after
+ * JOB_RETENTION_HOURS (default: 24) or beyond JOB_MAX_FINISHED (default: 200).
+ */
+
+import path from "path";
+import { isMockEngineEnabled } from "@/lib/engine/factory";
+import { runAnalysisPipeline, runMockAnalysisPipeline } from "@/lib/service/analysis-pipeline";
+import { getAnalysisMaxAgeMs, getAnalysisRepository } from "@/lib/repository";
+import { getCommentAnalysisCache } from "@/lib/cache/comment-analysis-cache";
+import { JobQueue } from "./queue";
+import { MemoryJobStore } from "./memory-store";
+import { FileJobStore } from "./file-store";
+import type { JobRunner, JobStore } from "./types";
+
+export { JobQueue } from "./queue";
+export { MemoryJobStore } from "./memory-store";
+export { FileJobStore } from "./file-store";
+export { enqueuePlaylistBatch, getPlaylistBatch, cancelPlaylistBatch, type PlaylistBatchInput } from "./playlist";
+export * from "./types";
+
+/**
+ * Default runner: the analysis pipeline, or the mock dataset in mock mode
+ */
+export const runAnalysisJob: JobRunner = (job, { signal, onProgress }) => {
+  if (isMockEngineEnabled()) {
+    return runMockAnalysisPipeline(job.options?.maxComments || 20, { onProgress, signal });
+  }
+  return runAnalysisPipeline(job.videoId, {
+    onProgress,
+    signal,
+    repository: getAnalysisRepository(),
+    maxAgeMs: getAnalysisMaxAgeMs(),
+    forceRefresh: job.force,
+    refresh: job.refresh,
+    analysisOptions: job.options,
+    commentCache: getCommentAnalysisCache(),
+  });
+};
+
+/**
+ * A positive number from the environment, or `fallback` when unset or invalid
+ */
+function readPositiveEnv(name: string, fallback: number, parse: (value: string) => number): number {
+  const value = parse(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function createJobStoreFromEnv(): JobStore {
+  if (process.env.JOB_STORE === "file") {
+    return new FileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), ".data", "jobs"));
+  }
+  return new MemoryJobStore({
+    finishedTtlMs: readPositiveEnv("JOB_RETENTION_HOURS", 24, parseFloat) * 60 * 60 * 1000,
+    maxFinishedJobs: readPositiveEnv("JOB_MAX_FINISHED", 200, parseInt),
+  });
+}
+
+// Keep a single queue across hot reloads in development
+const globalForJobs = globalThis as unknown as { analysisJobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.analysisJobQueue) {
+    globalForJobs.analysisJobQueue = new JobQueue(createJobStoreFromEnv(), runAnalysisJob, {
+      concurrency: readPositiveEnv("JOB_CONCURRENCY", 2, parseInt),
+    });
+  }
+  return globalForJobs.analysisJobQueue;
+}
@@ -0,0 +1,76 @@
+/**
+ * In-memory job store (lost on process restart)
+ *
+ * Finished jobs are evicted once they are older than `finishedTtlMs`, and
+ * the oldest beyond `maxFinishedJobs`, so a long-running server does not
+ * keep every result in memory.
+ */
+
+import { isFinished, type AnalysisJob, type JobStore } from "./types";
+
+export interface MemoryJobStoreOptions {
+  maxFinishedJobs?: number;
+  finishedTtlMs?: number;
+  now?: () => Date;
+}
+
+const DEFAULT_MAX_FINISHED_JOBS = 200;
+const DEFAULT_FINISHED_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, AnalysisJob>();
+  private maxFinishedJobs: number;
+  private finishedTtlMs: number;
+  private now: () => Date;
+
+  constructor(options: MemoryJobStoreOptions = {}) {
+    this.maxFinishedJobs = options.maxFinishedJobs ?? DEFAULT_MAX_FINISHED_JOBS;
+    this.finishedTtlMs = options.finishedTtlMs ?? DEFAULT_FINISHED_TTL_MS;
+    this.now = options.now || (() => new Date());
+  }
+
+  async create(job: AnalysisJob): Promise<void> {
+    this.prune();
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    this.prune();
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(id: string, patch: Partial<Omit<AnalysisJob, "id">>): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    const updated = { ...job, ...patch, updatedAt: this.now().toISOString() };
+    this.jobs.set(id, updated);
+    if (isFinished(updated.status)) this.prune();
+    return { ...updated };
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    this.prune();
+    return Array.from(this.jobs.values()).map((job) => ({ ...job }));
+  }
+
+  /**
+   * Drop expired finished jobs, then the oldest ones over the limit
+   */
+  private prune(): void {
+    const expiresBefore = this.now().getTime() - this.finishedTtlMs;
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => isFinished(job.status))
+      .sort((a, b) => finishedTime(a) - finishedTime(b));
+
+    const excess = finished.length - this.maxFinishedJobs;
+    finished.forEach((job, i) => {
+      if (i < excess || finishedTime(job) < expiresBefore) this.jobs.delete(job.id);
+    });
+  }
+}
+
+function finishedTime(job: AnalysisJob): number {
+  return new Date(job.finishedAt || job.updatedAt).getTime();
+}
@@ -0,0 +1,164 @@
+/**
+ * Playlist batches
+ *
+ * A playlist is analyzed as one queued job per video, so the batch shares
+ * the queue's concurrency limit with every other analysis and each video's
+ * result stays available on its own at /api/jobs/:id. Jobs carry their
+ * batch, so a batch is persisted wherever its jobs are.
+ *
+ * Each queue remembers its batches' job IDs, so polling a batch reads only
+ * its own jobs, and keeps a batch once it has finished so the report is
+ * built once. After a restart (file store) a batch is found by scanning the
+ * jobs once.
+ */
+
+import { randomUUID } from "crypto";
+import { buildPlaylistReport } from "@/lib/analysis/playlist-report";
+import type { AnalysisOptions, VideoAnalysis, YouTubePlaylist, YouTubePlaylistItem } from "@/types";
+import type { JobQueue } from "./queue";
+import { isFinished, withoutPartialResult, type AnalysisJob, type PlaylistBatch } from "./types";
+
+export interface PlaylistBatchInput {
+  playlist: YouTubePlaylist;
+  items: YouTubePlaylistItem[];
+  options?: AnalysisOptions;
+  force?: boolean;
+}
+
+/**
+ * Queue a job for every video of the playlist
+ */
+export async function enqueuePlaylistBatch(queue: JobQueue, input: PlaylistBatchInput): Promise<PlaylistBatch> {
+  const batchId = randomUUID();
+
+  const jobs: AnalysisJob[] = [];
+  for (const item of input.items) {
+    jobs.push(await queue.enqueue({
+      url: `https://www.youtube.com/watch?v=${item.videoId}`,
+      videoId: item.videoId,
+      options: input.options,
+      force: input.force,
+      batch: { id: batchId, playlist: input.playlist, position: item.position, title: item.title },
+    }));
+  }
+
+  getBatchRegistry(queue).set(batchId, { jobIds: jobs.map((job) => job.id) });
+  return toPlaylistBatch(batchId, jobs);
+}
+
+export async function getPlaylistBatch(queue: JobQueue, batchId: string): Promise<PlaylistBatch | null> {
+  const cached = getBatchRegistry(queue).get(batchId)?.finished;
+  if (cached) return cached;
+
+  const jobs = await listBatchJobs(queue, batchId);
+  return jobs.length > 0 ? rememberBatch(queue, toPlaylistBatch(batchId, jobs)) : null;
+}
+
+/**
+ * Cancel every unfinished job of a batch
+ */
+export async function cancelPlaylistBatch(queue: JobQueue, batchId: string): Promise<PlaylistBatch | null> {
+  const cached = getBatchRegistry(queue).get(batchId)?.finished;
+  if (cached) return cached;
+
+  const jobs = await listBatchJobs(queue, batchId);
+  if (jobs.length === 0) return null;
+
+  const updated = await Promise.all(
+    jobs.map(async (job) => (isFinished(job.status) ? job : (await queue.cancel(job.id)) || job))
+  );
+  return rememberBatch(queue, toPlaylistBatch(batchId, updated));
+}
+
+interface BatchEntry {
+  jobIds: string[]; // In playlist order
+  finished?: PlaylistBatch;
+}
+
+const MAX_REMEMBERED_BATCHES = 100;
+
+const batchRegistries = new WeakMap<JobQueue, Map<string, BatchEntry>>();
+
+function getBatchRegistry(queue: JobQueue): Map<string, BatchEntry> {
+  let registry = batchRegistries.get(queue);
+  if (!registry) {
+    registry = new Map();
+    batchRegistries.set(queue, registry);
+  }
+
+  // Forget the oldest batches; they are found again by scanning if still stored
+  while (registry.size > MAX_REMEMBERED_BATCHES) {
+    registry.delete(registry.keys().next().value!);
+  }
+  return registry;
+}
+
+/**
+ * Keep a batch's job IDs, and the batch itself once it has finished
+ */
+function rememberBatch(queue: JobQueue, batch: PlaylistBatch): PlaylistBatch {
+  getBatchRegistry(queue).set(batch.id, {
+    jobIds: batch.videos.map((video) => video.jobId),
+    finished: batch.status === "finished" ? batch : undefined,
+  });
+  return batch;
+}
+
+async function listBatchJobs(queue: JobQueue, batchId: string): Promise<AnalysisJob[]> {
+  const entry = getBatchRegistry(queue).get(batchId);
+  if (entry) {
+    const jobs = await Promise.all(entry.jobIds.map((id) => queue.get(id)));
+    return jobs.filter((job): job is AnalysisJob => job !== null);
+  }
+
+  const jobs = await queue.list();
+  return jobs
+    .filter((job) => job.batch?.id === batchId)
+    .sort((a, b) => a.batch!.position - b.batch!.position);
+}
+
+/**
+ * Batch status from its jobs (in playlist order); the report is built once
+ * every job has finished and at least one completed
+ */
+function toPlaylistBatch(batchId: string, jobs: AnalysisJob[]): PlaylistBatch {
+  const { playlist } = jobs[0].batch!;
+  const finished = jobs.every((job) => isFinished(job.status));
+
+  const analyses: VideoAnalysis[] = [];
+  const failedVideos: NonNullable<PlaylistBatch["report"]>["failedVideos"] = [];
+  for (const job of jobs) {
+    if (job.status === "completed" && job.result) {
+      analyses.push(job.result);
+    } else if (job.status === "failed") {
+      failedVideos.push({ videoId: job.videoId, title: job.batch!.title, error: job.error?.message || "Analysis failed" });
+    }
+  }
+
+  return {
+    id: batchId,
+    playlist,
+    status: finished ? "finished" : "running",
+    videos: jobs.map((job) => ({
+      videoId: job.videoId,
+      title: job.batch!.title,
+      position: job.batch!.position,
+      jobId: job.id,
+      status: job.status,
+      progress: withoutPartialResult(job.progress),
+      error: job.error,
+    })),
+    report: finished && analyses.length > 0
+      ? buildPlaylistReport(playlist, analyses, { failedVideos, now: latestFinish(jobs) })
+      : undefined,
+    createdAt: jobs.reduce((earliest, job) => (job.createdAt < earliest ? job.createdAt : earliest), jobs[0].createdAt),
+  };
+}
+
+/**
+ * When the last job finished, so polling returns a stable report
+ */
+function latestFinish(jobs: AnalysisJob[]): Date | undefined {
+  const times = jobs.flatMap((job) => (job.finishedAt ? [new Date(job.finishedAt).getTime()] : []));
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+}
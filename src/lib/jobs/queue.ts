@@ -0,0 +1,176 @@
+/**
+ * In-process analysis job queue
+ *
+ * Runs jobs in the background with a concurrency limit, persisting status and
+ * progress to a pluggable JobStore so clients can poll instead of holding an
+ * HTTP request open for the whole run.
+ */
+
+import { randomUUID } from "crypto";
+import { describeAnalysisError } from "@/lib/service/analysis-errors";
+import type { AnalysisProgressEvent } from "@/types";
+import { isFinished, withoutPartialResult, type AnalysisJob, type AnalysisJobInput, type JobRunner, type JobStore } from "./types";
+
+interface JobQueueOptions {
+  concurrency?: number;
+}
+
+export class JobQueue {
+  private readonly concurrency: number;
+  private pending: string[] = [];
+  private running = new Map<string, AbortController>();
+  private executions = new Set<Promise<void>>();
+  private writes = new Map<string, Promise<AnalysisJob | null>>();
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly runner: JobRunner,
+    options?: JobQueueOptions
+  ) {
+    this.concurrency = options?.concurrency || 2;
+  }
+
+  /**
+   * Create a job and schedule it for execution
+   */
+  async enqueue(input: AnalysisJobInput): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+      ...input,
+      id: randomUUID(),
+      status: "queued",
+      progress: { completedBatches: 0, totalBatches: 0 },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.create(job);
+    this.pending.push(job.id);
+    this.pump();
+
+    return job;
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    return this.store.get(id);
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Cancel a queued or running job. Finished jobs are returned unchanged.
+   */
+  async cancel(id: string): Promise<AnalysisJob | null> {
+    const job = await this.store.get(id);
+    if (!job || isFinished(job.status)) return job;
+
+    const controller = this.running.get(id);
+    if (controller) {
+      // The running execution records the cancellation once the pipeline stops
+      controller.abort();
+    } else {
+      this.pending = this.pending.filter((pendingId) => pendingId !== id);
+    }
+
+    return this.update(id, { status: "cancelled", finishedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Resolve once no job is queued or running
+   */
+  async idle(): Promise<void> {
+    while (this.executions.size > 0) {
+      await Promise.all(this.executions);
+    }
+  }
+
+  /**
+   * Apply store updates for a job one at a time, in call order
+   */
+  private update(id: string, patch: Parameters<JobStore["update"]>[1]): Promise<AnalysisJob | null> {
+    const previous = this.writes.get(id) || Promise.resolve(null);
+    const next = previous.catch(() => null).then(() => this.store.update(id, patch));
+    this.writes.set(id, next);
+
+    next.finally(() => {
+      if (this.writes.get(id) === next) this.writes.delete(id);
+    }).catch(() => undefined);
+
+    return next;
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+
+      const execution = this.execute(id, controller.signal).finally(() => {
+        this.running.delete(id);
+        this.executions.delete(execution);
+        this.pump();
+      });
+      this.executions.add(execution);
+    }
+  }
+
+  private async execute(id: string, signal: AbortSignal): Promise<void> {
+    const job = await this.update(id, {
+      status: "running",
+      startedAt: new Date().toISOString(),
+    });
+    if (!job) return;
+
+    const onProgress = (event: AnalysisProgressEvent) => {
+      if (signal.aborted) return;
+
+      const progress = { ...job.progress };
+
+      if (event.type === "video") {
+        progress.video = event.video;
+      } else if (event.type === "comments") {
+        progress.totalComments = event.total;
+        progress.totalBatches = event.totalBatches;
+      } else if (event.type === "cached" || event.type === "filtered") {
+        progress.comments = [...(progress.comments || []), ...event.comments];
+      } else if (event.type === "batch") {
+        progress.comments = [...(progress.comments || []), ...event.comments];
+        progress.completedBatches = event.completedBatches;
+        progress.totalBatches = event.totalBatches;
+      } else if (event.type === "complete" || event.type === "error") {
+        return;
+      }
+
+      progress.phase = event.type;
+      job.progress = progress;
+      this.update(id, { progress }).catch((error) => {
+        console.error(`[JobQueue] Failed to record progress for job ${id}:`, error);
+      });
+    };
+
+    try {
+      const result = await this.runner(job, { signal, onProgress });
+
+      // Cancellation has already been recorded by cancel()
+      if (signal.aborted) return;
+      await this.update(id, {
+        status: "completed",
+        // The result supersedes the partial one
+        progress: withoutPartialResult(job.progress),
+        result,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error(`[JobQueue] Job ${id} failed:`, error);
+      await this.update(id, {
+        status: "failed",
+        error: describeAnalysisError(error),
+        finishedAt: new Date().toISOString(),
+      });
+    }
+  }
+}
+
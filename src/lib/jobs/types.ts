@@ -0,0 +1,112 @@
+/**
+ * Background analysis job types
+ */
+
+import type {
+  AnalysisOptions,
+  AnalysisPhase,
+  AnalysisProgressEvent,
+  AnalyzedComment,
+  PlaylistReport,
+  VideoAnalysis,
+  YouTubePlaylist,
+  YouTubeVideo,
+} from "@/types";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobProgress {
+  phase?: AnalysisPhase;
+  totalComments?: number;
+  completedBatches: number;
+  totalBatches: number;
+  // Partial results while running, so pollers can render them progressively
+  video?: YouTubeVideo;
+  comments?: AnalyzedComment[];
+}
+
+/**
+ * The playlist batch a job belongs to
+ */
+export interface JobBatchRef {
+  id: string;
+  playlist: YouTubePlaylist;
+  position: number; // In the playlist
+  title: string; // Of the video, as listed in the playlist
+}
+
+export interface AnalysisJob {
+  id: string;
+  url: string;
+  videoId: string;
+  options?: AnalysisOptions;
+  force?: boolean; // Ignore stored analyses
+  refresh?: boolean; // Extend the stored analysis with newer comments only
+  batch?: JobBatchRef;
+  status: JobStatus;
+  progress: JobProgress;
+  result?: VideoAnalysis;
+  error?: { message: string; status: number };
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type AnalysisJobInput = Pick<AnalysisJob, "url" | "videoId" | "options" | "force" | "refresh" | "batch">;
+
+/**
+ * A playlist analyzed as one job per video
+ */
+export interface PlaylistBatch {
+  id: string;
+  playlist: YouTubePlaylist;
+  status: "running" | "finished"; // Finished once no job is queued or running
+  videos: Array<{
+    videoId: string;
+    title: string;
+    position: number;
+    jobId: string;
+    status: JobStatus;
+    progress: JobProgress;
+    error?: { message: string; status: number };
+  }>;
+  report?: PlaylistReport; // Once finished, over the completed jobs
+  createdAt: string;
+}
+
+/**
+ * Persistence contract for jobs
+ *
+ * Implementations: MemoryJobStore (default), FileJobStore (tests, single host).
+ */
+export interface JobStore {
+  create(job: AnalysisJob): Promise<void>;
+  get(id: string): Promise<AnalysisJob | null>;
+  update(id: string, patch: Partial<Omit<AnalysisJob, "id">>): Promise<AnalysisJob | null>;
+  list(): Promise<AnalysisJob[]>;
+}
+
+/**
+ * Executes a job and resolves with its analysis
+ */
+export type JobRunner = (
+  job: AnalysisJob,
+  context: { signal: AbortSignal; onProgress: (event: AnalysisProgressEvent) => void }
+) => Promise<VideoAnalysis>;
+
+export function isFinished(status: JobStatus): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+/**
+ * Progress counters only, without the partial video and comments
+ */
+export function withoutPartialResult(progress: JobProgress): JobProgress {
+  return {
+    phase: progress.phase,
+    totalComments: progress.totalComments,
+    completedBatches: progress.completedBatches,
+    totalBatches: progress.totalBatches,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+/**
+ * provider.ts reads its configuration when imported, so each test loads a
+ * fresh copy after stubbing the environment
+ */
+async function loadProvider() {
+  vi.resetModules();
+  return import("../provider");
+}
+
+describe("LLM provider selection", () => {
+  beforeEach(() => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("GROQ_API_KEY", "");
+    vi.stubEnv("GEMINI_API_KEY", "");
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("resolves an OpenAI-compatible server from its base URL and model", async () => {
+    vi.stubEnv("LLM_ENGINE", "openai-compatible");
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1");
+    vi.stubEnv("OPENAI_COMPATIBLE_MODEL", "llama3.1:8b");
+
+    const { getModelChain, formatModelId } = await loadProvider();
+    const chain = getModelChain();
+
+    expect(chain.map(({ provider }) => provider)).toEqual(["openai-compatible"]);
+    expect(formatModelId(chain[0].model)).toBe("openai-compatible.chat:llama3.1:8b");
+  });
+
+  it("honours GROQ_MODEL", async () => {
+    vi.stubEnv("LLM_ENGINE", "groq");
+    vi.stubEnv("GROQ_API_KEY", "gsk_test");
+    vi.stubEnv("GROQ_MODEL", "llama-3.1-8b-instant");
+
+    const { getModel, formatModelId } = await loadProvider();
+
+    expect(formatModelId(getModel())).toMatch(/:llama-3\.1-8b-instant$/);
+  });
+
+  it("skips unconfigured providers in the chain", async () => {
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "groq, openai-compatible, gemini");
+    vi.stubEnv("GEMINI_API_KEY", "test");
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "");
+
+    const { getModelChain } = await loadProvider();
+
+    expect(getModelChain().map(({ provider }) => provider)).toEqual(["gemini"]);
+  });
+
+  it("moves a preferred provider to the front of the chain", async () => {
+    vi.stubEnv("LLM_PROVIDER_CHAIN", "groq,gemini");
+    vi.stubEnv("GROQ_API_KEY", "gsk_test");
+    vi.stubEnv("GEMINI_API_KEY", "test");
+
+    const { getModelChain } = await loadProvider();
+
+    expect(getModelChain("gemini").map(({ provider }) => provider)).toEqual(["gemini", "groq"]);
+  });
+});
+
+describe("embedding model selection", () => {
+  beforeEach(() => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "");
+    vi.stubEnv("OPENAI_COMPATIBLE_EMBEDDING_MODEL", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("embeds on the OpenAI-compatible server when it has an embedding model", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1");
+    vi.stubEnv("OPENAI_COMPATIBLE_EMBEDDING_MODEL", "nomic-embed-text");
+
+    const { getEmbeddingModel } = await loadProvider();
+    const model = getEmbeddingModel();
+
+    expect(model?.provider).toMatch(/^openai-compatible/);
+    expect(model?.modelId).toBe("nomic-embed-text");
+  });
+
+  it("falls back to OpenAI embeddings", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+
+    const { getEmbeddingModel } = await loadProvider();
+
+    expect(getEmbeddingModel()?.modelId).toBe("text-embedding-3-small");
+  });
+
+  it("returns null without any embedding provider", async () => {
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1");
+
+    const { getEmbeddingModel } = await loadProvider();
+
+    expect(getEmbeddingModel()).toBeNull();
+  });
+});
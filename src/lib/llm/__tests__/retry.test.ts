@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import { APICallError } from "ai";
+import { callLLMWithFailover, callLLMWithRetry, classifyLLMError } from "../retry";
+import type { ProviderModel } from "../provider";
+
+function apiError(statusCode: number, message: string, responseHeaders?: Record<string, string>) {
+  return new APICallError({
+    message,
+    url: "https://example.com/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+const noSleep = async () => undefined;
+
+describe("classifyLLMError", () => {
+  it("recognizes quota exhaustion", () => {
+    expect(classifyLLMError(apiError(429, "You exceeded your current quota")).kind).toBe("quota");
+    expect(classifyLLMError(apiError(429, "RESOURCE_EXHAUSTED")).kind).toBe("quota");
+  });
+
+  it("retries rate limits and server errors", () => {
+    expect(classifyLLMError(apiError(429, "Rate limit reached", { "retry-after": "2" }))).toEqual({
+      kind: "retryable",
+      retryAfterMs: 2000,
+    });
+    expect(classifyLLMError(apiError(503, "Service unavailable")).kind).toBe("retryable");
+  });
+
+  it("does not retry client errors", () => {
+    expect(classifyLLMError(apiError(400, "Bad request")).kind).toBe("fatal");
+  });
+});
+
+describe("callLLMWithRetry", () => {
+  it("retries until the call succeeds", async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(apiError(500, "Internal error"))
+      .mockResolvedValueOnce("ok");
+
+    await expect(callLLMWithRetry(call, { sleep: noSleep })).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails fast with a provider quota error", async () => {
+    const call = vi.fn().mockRejectedValue(apiError(429, "insufficient_quota"));
+
+    await expect(callLLMWithRetry(call, { provider: "groq", sleep: noSleep })).rejects.toMatchObject({
+      code: "GROQ_QUOTA_EXCEEDED",
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out each attempt", async () => {
+    const call = vi.fn((signal: AbortSignal) => new Promise((_, reject) => {
+      signal.addEventListener("abort", () => reject(signal.reason));
+    }));
+
+    await expect(callLLMWithRetry(call, { timeoutMs: 10, retry: { maxAttempts: 2 }, sleep: noSleep })).rejects.toMatchObject({
+      code: "LLM_TIMEOUT",
+    });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops when the caller cancels", async () => {
+    const controller = new AbortController();
+    const call = vi.fn(async () => {
+      controller.abort();
+      throw apiError(503, "Service unavailable");
+    });
+
+    await expect(callLLMWithRetry(call, { signal: controller.signal, sleep: noSleep })).rejects.toMatchObject({
+      code: "CANCELLED",
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("callLLMWithFailover", () => {
+  const chain: ProviderModel[] = [
+    { provider: "groq", model: "groq:llama" },
+    { provider: "gemini", model: "google:gemini" },
+  ];
+
+  it("uses the first provider when it succeeds", async () => {
+    const call = vi.fn(async () => "ok");
+
+    await expect(callLLMWithFailover(chain, call)).resolves.toEqual({
+      result: "ok",
+      provider: "groq",
+      modelId: "groq:llama",
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails over on quota exhaustion", async () => {
+    const call = vi.fn(async (model) => {
+      if (model === "groq:llama") throw apiError(429, "You exceeded your current quota");
+      return "ok";
+    });
+
+    const { provider, modelId } = await callLLMWithFailover(chain, call, { sleep: noSleep });
+
+    expect(provider).toBe("gemini");
+    expect(modelId).toBe("google:gemini");
+  });
+
+  it("fails over once server errors outlast the retries", async () => {
+    const call = vi.fn(async (model) => {
+      if (model === "groq:llama") throw apiError(503, "Service unavailable");
+      return "ok";
+    });
+
+    const { provider } = await callLLMWithFailover(chain, call, { retry: { maxAttempts: 2 }, sleep: noSleep });
+
+    expect(provider).toBe("gemini");
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not fail over on client errors", async () => {
+    const call = vi.fn(async () => {
+      throw apiError(400, "Bad request");
+    });
+
+    await expect(callLLMWithFailover(chain, call, { sleep: noSleep })).rejects.toMatchObject({ statusCode: 400 });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws the last error when every provider fails", async () => {
+    const call = vi.fn(async () => {
+      throw apiError(429, "RESOURCE_EXHAUSTED");
+    });
+
+    await expect(callLLMWithFailover(chain, call, { sleep: noSleep })).rejects.toMatchObject({
+      code: "GEMINI_QUOTA_EXCEEDED",
+    });
+  });
+});
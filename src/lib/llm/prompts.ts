@@ -4,7 +4,13 @@
  * These prompts are designed to return structured JSON for batch processing.
  */
 
-import type { YouTubeComment, AxisProfile } from "@/types";
+import type { YouTubeComment, AxisProfile, OutputLanguage } from "@/types";
+
+/**
+ * Version of the prompts below. Bump whenever a prompt changes in a way that
+ * affects results, so cached per-comment analyses are invalidated.
+ */
+export const PROMPT_VERSION = "1";
 
 /**
  * System prompt for sentiment analysis
@@ -326,3 +332,17 @@ ${JSON.stringify(commentsJson, null, 2)}
 
 CRITICAL: Return minimal JSON with commentId, label, and score ONLY. No reason, no evidence, no emotions.`;
 }
+
+const LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+  en: "English",
+  ja: "Japanese",
+};
+
+/**
+ * Instruction appended to prompts so free-text fields (reasons, evidence,
+ * summaries) are written in the requested language. Empty when unset.
+ */
+export function createLanguageInstruction(language?: OutputLanguage): string {
+  if (!language) return "";
+  return `\n\nWrite all free-text fields in ${LANGUAGE_NAMES[language]}, whatever language the comments are in. Keep JSON keys and enum values in English.`;
+}
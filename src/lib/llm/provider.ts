@@ -3,6 +3,7 @@ import { openai } from '@ai-sdk/openai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import { LanguageModel } from 'ai';
+import type { LLMProviderName } from '@/types';
 
 // Initialize providers
 const google = createGoogleGenerativeAI({
@@ -15,37 +16,122 @@ const groq = createOpenAI({
     apiKey: process.env.GROQ_API_KEY,
 });
 
-export type ModelProvider = 'openai' | 'groq' | 'gemini';
+// Any OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1) or llama.cpp.
+// Local servers usually ignore the key, but the SDK requires one.
+const openaiCompatible = createOpenAI({
+    name: 'openai-compatible',
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+});
 
-export function getModel(preferredProvider?: ModelProvider): LanguageModel {
-    const provider = preferredProvider || (process.env.LLM_ENGINE as ModelProvider) || 'openai';
+export type ModelProvider = LLMProviderName;
 
+const MODEL_PROVIDERS: ModelProvider[] = ['openai', 'groq', 'gemini', 'openai-compatible'];
+
+/**
+ * A resolved model together with the provider it came from
+ */
+export interface ProviderModel {
+    provider: ModelProvider;
+    model: LanguageModel;
+}
+
+/**
+ * Resolve a provider's model, or null if the provider is not configured
+ */
+export function createProviderModel(provider: ModelProvider): LanguageModel | null {
     switch (provider) {
         case 'groq':
-            if (!process.env.GROQ_API_KEY) {
-                console.warn('GROQ_API_KEY not found, falling back to OpenAI');
-                return openai('gpt-4o-mini');
-            }
-            // Groq model ID
-            return groq('llama-3.3-70b-versatile');
+            return process.env.GROQ_API_KEY ? groq(process.env.GROQ_MODEL || 'llama-3.3-70b-versatile') : null;
 
         case 'gemini':
-            if (!process.env.GEMINI_API_KEY) {
-                console.warn('GEMINI_API_KEY not found, falling back to OpenAI');
-                return openai('gpt-4o-mini');
-            }
-            return google('gemini-1.5-flash');
+            return process.env.GEMINI_API_KEY ? google('gemini-1.5-flash') : null;
 
         case 'openai':
-        default:
-            if (!process.env.OPENAI_API_KEY) {
-                throw new Error('OPENAI_API_KEY is not set');
-            }
-            return openai(process.env.OPENAI_MODEL || 'gpt-4o-mini');
+            return process.env.OPENAI_API_KEY ? openai(process.env.OPENAI_MODEL || 'gpt-4o-mini') : null;
+
+        case 'openai-compatible':
+            // Compatible servers implement Chat Completions, not the Responses API
+            return process.env.OPENAI_COMPATIBLE_BASE_URL && process.env.OPENAI_COMPATIBLE_MODEL
+                ? openaiCompatible.chat(process.env.OPENAI_COMPATIBLE_MODEL)
+                : null;
+    }
+}
+
+/**
+ * Embedding model for transcript retrieval (RAG): the OpenAI-compatible server
+ * when OPENAI_COMPATIBLE_EMBEDDING_MODEL is set, otherwise OpenAI.
+ * Null when neither is configured, in which case retrieval is skipped.
+ */
+export function getEmbeddingModel() {
+    if (process.env.OPENAI_COMPATIBLE_BASE_URL && process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL) {
+        return openaiCompatible.embedding(process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL);
+    }
+    return process.env.OPENAI_API_KEY ? openai.embedding('text-embedding-3-small') : null;
+}
+
+/**
+ * Providers to try in order, from LLM_PROVIDER_CHAIN (e.g. "groq,gemini,openai").
+ * Defaults to LLM_ENGINE alone.
+ */
+export function getProviderChain(): ModelProvider[] {
+    const configured = (process.env.LLM_PROVIDER_CHAIN || process.env.LLM_ENGINE || 'openai')
+        .split(',')
+        .map((p) => p.trim().toLowerCase())
+        .filter((p): p is ModelProvider => MODEL_PROVIDERS.includes(p as ModelProvider));
+
+    return [...new Set(configured)];
+}
+
+/**
+ * Models for every provider in the chain that has credentials, with
+ * `preferred` (if given) moved to the front.
+ * Falls back to OpenAI when none of them do, as getModel always has.
+ */
+export function getModelChain(preferred?: ModelProvider): ProviderModel[] {
+    const chain: ProviderModel[] = [];
+    const providers = preferred
+        ? [preferred, ...getProviderChain().filter((p) => p !== preferred)]
+        : getProviderChain();
+
+    for (const provider of providers) {
+        const model = createProviderModel(provider);
+        if (model) {
+            chain.push({ provider, model });
+        } else {
+            console.warn(`${provider} is not configured, skipping provider`);
+        }
     }
+
+    if (chain.length === 0) {
+        const model = createProviderModel('openai');
+        if (!model) {
+            throw new Error('OPENAI_API_KEY is not set');
+        }
+        chain.push({ provider: 'openai', model });
+    }
+
+    return chain;
+}
+
+export function getModel(preferredProvider?: ModelProvider): LanguageModel {
+    if (preferredProvider) {
+        const model = createProviderModel(preferredProvider);
+        if (model) return model;
+        console.warn(`${preferredProvider} is not configured, falling back to the provider chain`);
+    }
+
+    return getModelChain()[0].model;
 }
 
 export function getModelName(provider?: ModelProvider): string {
-    const p = provider || (process.env.LLM_ENGINE as ModelProvider) || 'openai';
+    const p = provider || getProviderChain()[0] || 'openai';
     return p;
 }
+
+/**
+ * Format a resolved model as "provider:modelId" for logs and stored results
+ */
+export function formatModelId(model: LanguageModel): string {
+    return typeof model === 'string' ? model : `${model.provider}:${model.modelId}`;
+}
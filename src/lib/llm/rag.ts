@@ -1,6 +1,6 @@
 
 import { embedMany, cosineSimilarity } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { getEmbeddingModel } from './provider';
 
 export interface DocumentChunk {
     content: string;
@@ -30,18 +30,26 @@ export function splitText(text: string, chunkSize: number = 500, overlap: number
 export async function retrieveContext(
     query: string,
     chunks: string[],
-    topK: number = 5
+    topK: number = 5,
+    onUsage?: (usage: { model: string; tokens: number }) => void
 ): Promise<DocumentChunk[]> {
     try {
         // 1. DANGER: Batch embedding all chunks can be expensive for very long videos.
         // Optimization: Limit total chunks if necessary, but for now assuming reasonable transcript length.
         if (chunks.length === 0) return [];
 
+        const model = getEmbeddingModel();
+        if (!model) {
+            console.warn('[RAG] No embedding model configured, skipping retrieval');
+            return [];
+        }
+
         // Embed both query and chunks
-        const { embeddings } = await embedMany({
-            model: openai.embedding('text-embedding-3-small'),
+        const { embeddings, usage } = await embedMany({
+            model,
             values: [query, ...chunks],
         });
+        onUsage?.({ model: `${model.provider}:${model.modelId}`, tokens: usage.tokens });
 
         const queryEmbedding = embeddings[0];
         const chunkEmbeddings = embeddings.slice(1);
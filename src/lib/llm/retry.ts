@@ -0,0 +1,154 @@
+import { APICallError, type LanguageModel } from 'ai';
+import { AnalysisError } from '@/types';
+import {
+    DEFAULT_RETRY_POLICY,
+    computeBackoffDelay,
+    parseRetryAfter,
+    sleep as defaultSleep,
+    type RetryPolicy,
+} from '@/lib/retry/backoff';
+import { formatModelId, type ModelProvider, type ProviderModel } from './provider';
+
+export interface LLMCallOptions {
+    timeoutMs?: number; // Per-attempt timeout
+    retry?: Partial<RetryPolicy>;
+    signal?: AbortSignal; // Caller cancellation; never retried
+    provider?: ModelProvider; // Used to name quota errors
+    sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Messages providers use when a quota (rather than a short-term rate limit)
+ * is exhausted; retrying these only burns time
+ */
+const QUOTA_PATTERNS = [/quota/i, /RESOURCE_EXHAUSTED/, /billing/i];
+
+type LLMErrorKind = 'quota' | 'retryable' | 'fatal';
+
+/**
+ * Classify a failed LLM call
+ */
+export function classifyLLMError(error: unknown): { kind: LLMErrorKind; retryAfterMs?: number } {
+    if (APICallError.isInstance(error)) {
+        const text = `${error.message} ${error.responseBody || ''}`;
+        const retryAfter = error.responseHeaders?.['retry-after'] ?? error.responseHeaders?.['Retry-After'];
+        const retryAfterMs = parseRetryAfter(retryAfter ?? null);
+
+        if (error.statusCode === 429 || error.statusCode === 403) {
+            if (QUOTA_PATTERNS.some((pattern) => pattern.test(text))) {
+                return { kind: 'quota' };
+            }
+            return { kind: error.statusCode === 429 ? 'retryable' : 'fatal', retryAfterMs };
+        }
+
+        if (error.statusCode === undefined || error.statusCode >= 500 || error.statusCode === 408) {
+            return { kind: 'retryable', retryAfterMs };
+        }
+
+        return { kind: error.isRetryable ? 'retryable' : 'fatal', retryAfterMs };
+    }
+
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        return { kind: 'retryable' };
+    }
+
+    // Network failures surface as TypeError from fetch
+    if (error instanceof TypeError) {
+        return { kind: 'retryable' };
+    }
+
+    return { kind: 'fatal' };
+}
+
+/**
+ * Run an LLM call with a per-attempt timeout and retries on timeouts,
+ * 429 rate limits and 5xx errors. Quota exhaustion fails immediately with
+ * `<PROVIDER>_QUOTA_EXCEEDED`.
+ *
+ * The call receives the AbortSignal to pass to the AI SDK; pass
+ * `maxRetries: 0` there so this policy is the only one in effect.
+ */
+export async function callLLMWithRetry<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    options: LLMCallOptions = {}
+): Promise<T> {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    const sleep = options.sleep || defaultSleep;
+
+    for (let attempt = 1; ; attempt++) {
+        const signals = [options.signal, options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined]
+            .filter((signal): signal is AbortSignal => signal !== undefined);
+
+        try {
+            return await call(signals.length > 0 ? AbortSignal.any(signals) : new AbortController().signal);
+        } catch (error) {
+            if (options.signal?.aborted) {
+                throw new AnalysisError('Analysis was cancelled', 'CANCELLED');
+            }
+
+            const { kind, retryAfterMs } = classifyLLMError(error);
+
+            if (kind === 'quota') {
+                const provider = (options.provider || 'api').toUpperCase().replace(/-/g, '_');
+                throw new AnalysisError(`${provider} quota exceeded`, `${provider}_QUOTA_EXCEEDED`, error);
+            }
+
+            if (kind === 'fatal' || attempt >= policy.maxAttempts) {
+                if (error instanceof Error && error.name === 'TimeoutError') {
+                    throw new AnalysisError(`LLM call timed out after ${options.timeoutMs}ms`, 'LLM_TIMEOUT', error);
+                }
+                throw error;
+            }
+
+            const delay = retryAfterMs ?? computeBackoffDelay(attempt, policy);
+            console.warn(`[LLM] Call failed (attempt ${attempt}/${policy.maxAttempts}); retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+            await sleep(delay);
+        }
+    }
+}
+
+/**
+ * Result of a call that may have failed over to another provider
+ */
+export interface FailoverResult<T> {
+    result: T;
+    provider: ModelProvider;
+    modelId: string;
+}
+
+/**
+ * Try each provider in the chain in turn. Each gets the full retry policy;
+ * quota exhaustion, timeouts and persistent 429/5xx errors move on to the
+ * next provider, while other errors (bad requests, cancellation) are final.
+ */
+export async function callLLMWithFailover<T>(
+    chain: ProviderModel[],
+    call: (model: LanguageModel, signal: AbortSignal) => Promise<T>,
+    options: Omit<LLMCallOptions, 'provider'> = {}
+): Promise<FailoverResult<T>> {
+    let lastError: unknown = new Error('No LLM provider is configured');
+
+    for (const [index, { provider, model }] of chain.entries()) {
+        try {
+            const result = await callLLMWithRetry((signal) => call(model, signal), { ...options, provider });
+            return { result, provider, modelId: formatModelId(model) };
+        } catch (error) {
+            if (!shouldFailOver(error)) throw error;
+
+            lastError = error;
+            const next = chain[index + 1];
+            if (next) {
+                console.warn(`[LLM] ${provider} unavailable (${error instanceof Error ? error.message : error}); failing over to ${next.provider}`);
+            }
+        }
+    }
+
+    throw lastError;
+}
+
+function shouldFailOver(error: unknown): boolean {
+    if (error instanceof AnalysisError) {
+        return error.code === 'LLM_TIMEOUT' || error.code.endsWith('_QUOTA_EXCEEDED');
+    }
+    return classifyLLMError(error).kind === 'retryable';
+}
@@ -2,7 +2,14 @@
  * Mock data generators for testing and development
  */
 
-import type { YouTubeVideo, YouTubeComment, AnalyzedComment, EmotionTag } from "@/types";
+import type {
+  YouTubeVideo,
+  YouTubeComment,
+  YouTubePlaylist,
+  YouTubePlaylistItem,
+  AnalyzedComment,
+  EmotionTag,
+} from "@/types";
 
 // Sample comment templates
 const COMMENT_TEMPLATES = [
@@ -57,6 +64,28 @@ export function generateMockVideo(overrides?: Partial<YouTubeVideo>): YouTubeVid
   };
 }
 
+/**
+ * Generate a mock playlist and its items
+ */
+export function generateMockPlaylist(itemCount: number): { playlist: YouTubePlaylist; items: YouTubePlaylistItem[] } {
+  const playlist: YouTubePlaylist = {
+    id: `PL${Math.random().toString(36).substring(2, 12)}`,
+    title: "Mock Playlist",
+    channelName: CHANNEL_NAMES[Math.floor(Math.random() * CHANNEL_NAMES.length)],
+    thumbnailUrl: `https://picsum.photos/seed/${Math.random()}/640/360`,
+    itemCount,
+  };
+
+  const items = Array.from({ length: itemCount }, (_, position) => ({
+    videoId: `video_${Math.random().toString(36).substring(7)}`,
+    title: VIDEO_TITLES[position % VIDEO_TITLES.length],
+    publishedAt: new Date(Date.UTC(2024, 0, 10 + position * 7, 10)).toISOString(),
+    position,
+  }));
+
+  return { playlist, items };
+}
+
 /**
  * Generate a mock YouTube comment
  */
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { JsonFileAnalysisRepository } from "../file-repository";
+import type { StoredAnalysis } from "../types";
+import { buildVideoAnalysis } from "@/lib/analysis/aggregate";
+import { generateMockVideo, generateMockAnalyzedComments } from "@/lib/mock-data/generators";
+
+function createRecord(videoId: string, storedAt: string): StoredAnalysis {
+  const video = generateMockVideo({ id: videoId, title: `Video ${videoId}` });
+  return {
+    videoId,
+    analysis: buildVideoAnalysis(video, generateMockAnalyzedComments(videoId, 3)),
+    engine: "MockEngine",
+    model: "mock",
+    storedAt,
+  };
+}
+
+describe("JsonFileAnalysisRepository", () => {
+  let directory: string;
+  let repository: JsonFileAnalysisRepository;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "comment-radar-analyses-"));
+    repository = new JsonFileAnalysisRepository(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return null for unknown videos", async () => {
+    expect(await repository.get("missing")).toBeNull();
+  });
+
+  it("should save and load an analysis with its metadata", async () => {
+    const record = createRecord("video_a", "2026-01-01T00:00:00.000Z");
+    await repository.save(record);
+
+    const loaded = await repository.get("video_a");
+    expect(loaded?.engine).toBe("MockEngine");
+    expect(loaded?.model).toBe("mock");
+    expect(loaded?.analysis.comments).toHaveLength(3);
+  });
+
+  it("should overwrite and delete records", async () => {
+    await repository.save(createRecord("video_a", "2026-01-01T00:00:00.000Z"));
+    await repository.save(createRecord("video_a", "2026-01-02T00:00:00.000Z"));
+
+    expect((await repository.get("video_a"))?.storedAt).toBe("2026-01-02T00:00:00.000Z");
+
+    await repository.delete("video_a");
+    expect(await repository.get("video_a")).toBeNull();
+  });
+
+  it("should list summaries newest first", async () => {
+    await repository.save(createRecord("video_a", "2026-01-01T00:00:00.000Z"));
+    await repository.save(createRecord("video_b", "2026-01-03T00:00:00.000Z"));
+
+    const summaries = await repository.list();
+    expect(summaries.map((s) => s.videoId)).toEqual(["video_b", "video_a"]);
+    expect(summaries[0]).toMatchObject({ title: "Video video_b", commentCount: 3 });
+  });
+});
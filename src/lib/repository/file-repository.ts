@@ -0,0 +1,65 @@
+/**
+ * JSON-file analysis repository
+ *
+ * Stores one JSON document per video in a directory so analyses are shared
+ * by everyone using the same server instead of living in each browser.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { summarizeStoredAnalysis, type AnalysisRepository, type StoredAnalysis, type StoredAnalysisSummary } from "./types";
+
+export class JsonFileAnalysisRepository implements AnalysisRepository {
+  constructor(private readonly directory: string) {}
+
+  async get(videoId: string): Promise<StoredAnalysis | null> {
+    try {
+      const content = await fs.readFile(this.filePath(videoId), "utf-8");
+      return JSON.parse(content) as StoredAnalysis;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async save(record: StoredAnalysis): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write atomically so readers never see a half-written document
+    const target = this.filePath(record.videoId);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(record), "utf-8");
+    await fs.rename(temp, target);
+  }
+
+  async delete(videoId: string): Promise<void> {
+    await fs.rm(this.filePath(videoId), { force: true });
+  }
+
+  async list(): Promise<StoredAnalysisSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.get(path.basename(file, ".json")))
+    );
+
+    return records
+      .filter((record): record is StoredAnalysis => record !== null)
+      .map(summarizeStoredAnalysis)
+      .sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+  }
+
+  private filePath(videoId: string): string {
+    // YouTube video IDs are [a-zA-Z0-9_-]; strip anything else
+    return path.join(this.directory, `${videoId.replace(/[^a-zA-Z0-9_-]/g, "")}.json`);
+  }
+}
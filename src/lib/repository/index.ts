@@ -0,0 +1,35 @@
+/**
+ * Shared analysis repository for API routes
+ *
+ * ANALYSIS_STORE=file (default) persists analyses under ANALYSIS_STORE_DIR
+ * (default: .data/analyses); ANALYSIS_STORE=none disables server-side storage.
+ */
+
+import path from "path";
+import { JsonFileAnalysisRepository } from "./file-repository";
+import type { AnalysisRepository } from "./types";
+
+export { JsonFileAnalysisRepository } from "./file-repository";
+export * from "./types";
+
+// Keep a single repository across hot reloads in development
+const globalForRepository = globalThis as unknown as { analysisRepository?: AnalysisRepository | null };
+
+export function getAnalysisRepository(): AnalysisRepository | null {
+  if (globalForRepository.analysisRepository === undefined) {
+    globalForRepository.analysisRepository =
+      process.env.ANALYSIS_STORE === "none"
+        ? null
+        : new JsonFileAnalysisRepository(
+            process.env.ANALYSIS_STORE_DIR || path.join(process.cwd(), ".data", "analyses")
+          );
+  }
+  return globalForRepository.analysisRepository;
+}
+
+/**
+ * Maximum age of a stored analysis before it is re-run (ANALYSIS_STORE_TTL_HOURS, default 24)
+ */
+export function getAnalysisMaxAgeMs(): number {
+  return parseFloat(process.env.ANALYSIS_STORE_TTL_HOURS || "24") * 60 * 60 * 1000;
+}
@@ -0,0 +1,48 @@
+/**
+ * Server-side analysis repository types
+ */
+
+import type { AnalysisOptions, AxisProfile, VideoAnalysis } from "@/types";
+
+export interface StoredAnalysis {
+  videoId: string;
+  analysis: VideoAnalysis;
+  axisProfile?: AxisProfile;
+  summary?: string; // Context summary used for the prompts; reused by refreshes
+  engine: string; // e.g. "AnalysisService", "MockEngine"
+  model: string; // e.g. "groq.chat:llama-3.3-70b-versatile"
+  options?: AnalysisOptions; // Resolved options of the run; only reused for matching requests
+  storedAt: string;
+}
+
+export interface StoredAnalysisSummary {
+  videoId: string;
+  title: string;
+  channelName: string;
+  commentCount: number;
+  engine: string;
+  model: string;
+  storedAt: string;
+}
+
+/**
+ * Persistence contract for completed analyses, keyed by video ID
+ */
+export interface AnalysisRepository {
+  get(videoId: string): Promise<StoredAnalysis | null>;
+  save(record: StoredAnalysis): Promise<void>;
+  delete(videoId: string): Promise<void>;
+  list(): Promise<StoredAnalysisSummary[]>;
+}
+
+export function summarizeStoredAnalysis(record: StoredAnalysis): StoredAnalysisSummary {
+  return {
+    videoId: record.videoId,
+    title: record.analysis.video.title,
+    channelName: record.analysis.video.channelName,
+    commentCount: record.analysis.comments.length,
+    engine: record.engine,
+    model: record.model,
+    storedAt: record.storedAt,
+  };
+}
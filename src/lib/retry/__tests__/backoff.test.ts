@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { computeBackoffDelay, parseRetryAfter } from "../backoff";
+
+describe("computeBackoffDelay", () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 350 };
+
+  it("grows exponentially up to the cap", () => {
+    const max = () => 1;
+    expect([1, 2, 3, 4].map((attempt) => computeBackoffDelay(attempt, policy, max))).toEqual([100, 200, 350, 350]);
+  });
+
+  it("applies full jitter", () => {
+    expect(computeBackoffDelay(2, policy, () => 0.5)).toBe(100);
+    expect(computeBackoffDelay(2, policy, () => 0)).toBe(0);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta seconds", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+  });
+
+  it("parses HTTP dates", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", now)).toBe(5000);
+  });
+
+  it("ignores missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
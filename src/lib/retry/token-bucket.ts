@@ -0,0 +1,52 @@
+/**
+ * Token-bucket rate limiter
+ *
+ * Holds up to `capacity` tokens, refilled continuously at
+ * `refillPerSecond`. Callers are served in FIFO order, so concurrent
+ * requests sharing one bucket cannot starve each other.
+ */
+
+import { sleep as defaultSleep } from "./backoff";
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Wait until a token is available, then take it
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+
+    while (this.tokens < 1) {
+      await this.sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
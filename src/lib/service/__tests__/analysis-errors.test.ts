@@ -0,0 +1,21 @@
+// @vitest-environment node
+// Node's DOMException, as thrown on the server when a request is aborted
+import { describe, it, expect } from "vitest";
+import { describeAnalysisError } from "../analysis-errors";
+
+describe("describeAnalysisError", () => {
+  it("maps known error codes", () => {
+    expect(describeAnalysisError({ code: "VIDEO_NOT_FOUND", message: "" })).toEqual({
+      message: "Video not found. Please check the URL.",
+      status: 404,
+    });
+    expect(describeAnalysisError({ code: "GROQ_QUOTA_EXCEEDED", message: "" })).toMatchObject({ status: 429 });
+  });
+
+  it("handles errors with a non-string code, such as an aborted request", () => {
+    const abort = new DOMException("The operation was aborted", "AbortError");
+
+    expect(describeAnalysisError(abort)).toEqual({ message: "The operation was aborted", status: 500 });
+    expect(describeAnalysisError({ code: undefined, message: "" })).toEqual({ message: "API error occurred", status: 500 });
+  });
+});
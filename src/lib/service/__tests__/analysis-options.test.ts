@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  isSameAnalysisOptions,
+  parseAnalyzeRequest,
+  pickAnalysisOptions,
+  resolveAnalysisOptions,
+} from "../analysis-options";
+
+describe("parseAnalyzeRequest", () => {
+  it("accepts a URL with options alongside it", () => {
+    const result = parseAnalyzeRequest({
+      url: "https://youtu.be/dQw4w9WgXcQ",
+      mode: "axis",
+      maxComments: 300,
+      provider: "groq",
+      includeReplies: false,
+      order: "time",
+      language: "ja",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(pickAnalysisOptions(result.data)).toEqual({
+      mode: "axis",
+      maxComments: 300,
+      richTierThreshold: undefined,
+      provider: "groq",
+      includeReplies: false,
+      order: "time",
+      language: "ja",
+    });
+  });
+
+  it("rejects a missing URL", () => {
+    expect(parseAnalyzeRequest({ maxComments: 10 })).toEqual({ success: false, error: expect.stringContaining("url") });
+  });
+
+  it("names the invalid field", () => {
+    const result = parseAnalyzeRequest({ url: "https://youtu.be/x", maxComments: -5 });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toMatch(/^Invalid maxComments/);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(parseAnalyzeRequest({ url: "https://youtu.be/x", provider: "anthropic" }).success).toBe(false);
+  });
+});
+
+describe("resolveAnalysisOptions", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("falls back to the environment", () => {
+    vi.stubEnv("USE_AXIS_MODE", "true");
+    vi.stubEnv("MAX_COMMENTS", "500");
+    vi.stubEnv("RICH_TIER_THRESHOLD", "100");
+
+    expect(resolveAnalysisOptions()).toEqual({
+      mode: "axis",
+      maxComments: 500,
+      richTierThreshold: 100,
+      provider: undefined,
+      includeReplies: true,
+      order: "relevance",
+      language: undefined,
+      sampling: "top-likes",
+      seed: undefined,
+    });
+  });
+
+  it("caps sampling limits at the server configuration", () => {
+    vi.stubEnv("MAX_COMMENTS", "500");
+    vi.stubEnv("RICH_TIER_THRESHOLD", "100");
+
+    expect(resolveAnalysisOptions({ maxComments: 5000, richTierThreshold: 1000 })).toMatchObject({
+      maxComments: 500,
+      richTierThreshold: 100,
+    });
+    expect(resolveAnalysisOptions({ maxComments: 50 })).toMatchObject({ maxComments: 50, richTierThreshold: 50 });
+  });
+
+  it("treats explicit defaults the same as omitted ones", () => {
+    vi.stubEnv("USE_AXIS_MODE", "false");
+
+    expect(isSameAnalysisOptions(
+      resolveAnalysisOptions({}),
+      resolveAnalysisOptions({ mode: "legacy", includeReplies: true, order: "relevance" })
+    )).toBe(true);
+    expect(isSameAnalysisOptions(resolveAnalysisOptions({}), resolveAnalysisOptions({ language: "ja" }))).toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from "vitest";
+import { AnalysisPipeline, type PipelineYouTubeClient } from "../analysis-pipeline";
+import { MockEngine } from "@/lib/engine/mock-engine";
+import { generateMockAnalyzedComment, generateMockComment, generateMockVideo } from "@/lib/mock-data/generators";
+import type { AnalysisRepository, StoredAnalysis } from "@/lib/repository";
+import { buildVideoAnalysis } from "@/lib/analysis/aggregate";
+import type { AnalysisProgressEvent, YouTubeComment } from "@/types";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+const NOW = new Date("2024-02-01T00:00:00Z");
+
+function createComments(count: number): YouTubeComment[] {
+  return Array.from({ length: count }, (_, i) =>
+    generateMockComment(VIDEO_ID, { id: `c${i}`, likeCount: count - i, text: `comment ${i}` })
+  );
+}
+
+function createFakeYouTubeClient(comments: YouTubeComment[]) {
+  return {
+    getVideo: vi.fn(async (videoId: string) => generateMockVideo({ id: videoId, commentCount: comments.length })),
+    getTranscript: vi.fn(async () => "transcript"),
+    getComments: vi.fn(async (_videoId: string, options?: { maxComments?: number }) =>
+      comments.slice(0, options?.maxComments).map((c) => ({ ...c }))
+    ),
+  } satisfies PipelineYouTubeClient;
+}
+
+function createPipeline(youtubeClient: PipelineYouTubeClient, engine = new MockEngine({ batchSize: 10 })) {
+  const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const onProgress = vi.fn();
+  const pipeline = new AnalysisPipeline({
+    youtubeClient,
+    engine,
+    now: () => NOW,
+    sleep: async () => {},
+    logger,
+    hooks: { onProgress },
+  });
+  return { pipeline, engine, logger, onProgress };
+}
+
+describe("AnalysisPipeline", () => {
+  it("runs end-to-end with tiered batches and reports progress", async () => {
+    const youtube = createFakeYouTubeClient(createComments(30));
+    const { pipeline, onProgress } = createPipeline(youtube);
+    const events: AnalysisProgressEvent[] = [];
+
+    const analysis = await pipeline.run(VIDEO_ID, {
+      onProgress: (event) => events.push(event),
+      analysisOptions: { maxComments: 25, richTierThreshold: 5, mode: "legacy" },
+    });
+
+    expect(youtube.getComments).toHaveBeenCalledWith(VIDEO_ID, expect.objectContaining({ maxComments: 25 }));
+    expect(analysis.comments).toHaveLength(25);
+    expect(analysis.analyzedAt).toBe(NOW.toISOString());
+    expect(analysis.isPartial).toBe(false);
+
+    // 5 rich comments in one batch, 20 lite comments in two
+    expect(events.map((e) => e.type)).toEqual([
+      "video", "transcript", "summary", "comments", "batch", "batch", "batch", "complete",
+    ]);
+    expect(events.find((e) => e.type === "comments")).toMatchObject({ total: 25, totalBatches: 3 });
+
+    expect(analysis.sampling).toEqual({
+      strategy: "top-likes",
+      seed: undefined,
+      totalComments: 30,
+      sampledComments: 25,
+      richComments: 5,
+      samplingRate: 25 / 30,
+    });
+
+    expect(onProgress).toHaveBeenCalledTimes(events.length);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ type: "complete" }), VIDEO_ID);
+  });
+
+  it("gives replies their parent's text", async () => {
+    const comments = createComments(3);
+    comments[2].parentId = "c0";
+    const { pipeline } = createPipeline(createFakeYouTubeClient(comments));
+
+    const analysis = await pipeline.run(VIDEO_ID, { analysisOptions: { mode: "legacy" } });
+
+    expect(analysis.comments.find((c) => c.id === "c2")?.parentText).toBe("comment 0");
+  });
+
+  it("marks comments from failed batches as Unknown", async () => {
+    const engine = new MockEngine({ batchSize: 10 });
+    const analyzeBatch = engine.analyzeBatch.bind(engine);
+    vi.spyOn(engine, "analyzeBatch").mockImplementation(async (request) => {
+      if (request.isLite) throw new Error("Unparseable output");
+      return analyzeBatch(request);
+    });
+    const { pipeline } = createPipeline(createFakeYouTubeClient(createComments(8)), engine);
+
+    const analysis = await pipeline.run(VIDEO_ID, {
+      analysisOptions: { richTierThreshold: 4, mode: "legacy" },
+    });
+
+    const failed = analysis.comments.filter((c) => c.analysisError);
+    expect(failed).toHaveLength(4);
+    expect(failed.every((c) => c.label === "Unknown")).toBe(true);
+    expect(analysis.distribution.failed).toBe(4);
+    expect(analysis.sampling?.sampledComments).toBe(4);
+    expect(analysis.isPartial).toBe(true);
+  });
+
+  it("filters spam before sampling and keeps it out of the distribution", async () => {
+    const comments = createComments(6);
+    comments[4].text = comments[0].text + " and a much longer copy-paste tail";
+    comments[5].text = comments[4].text;
+    comments[5].publishedAt = new Date(new Date(comments[4].publishedAt).getTime() + 60_000).toISOString();
+    comments[3].text = "Win free crypto at https://scam.xyz/claim";
+    const engine = new MockEngine({ batchSize: 10 });
+    const analyzeBatch = vi.spyOn(engine, "analyzeBatch");
+    const { pipeline } = createPipeline(createFakeYouTubeClient(comments), engine);
+    const events: AnalysisProgressEvent[] = [];
+
+    const analysis = await pipeline.run(VIDEO_ID, {
+      onProgress: (event) => events.push(event),
+      analysisOptions: { mode: "legacy" },
+    });
+
+    const sent = analyzeBatch.mock.calls.flatMap(([request]) => request.comments.map((c) => c.id));
+    expect(sent.sort()).toEqual(["c0", "c1", "c2", "c4"]);
+    expect(analysis.comments.find((c) => c.id === "c5")?.spamReason).toBe("duplicate");
+    expect(analysis.comments.find((c) => c.id === "c3")?.spamReason).toBe("link-spam");
+    expect(analysis.distribution).toMatchObject({ total: 4, spam: 2, failed: 0 });
+    expect(analysis.sampling?.sampledComments).toBe(4);
+    expect(events.find((e) => e.type === "filtered")).toMatchObject({ comments: expect.any(Array) });
+  });
+
+  it("serves a fresh stored analysis without fetching anything", async () => {
+    const youtube = createFakeYouTubeClient(createComments(3));
+    const { pipeline } = createPipeline(youtube);
+    const stored: StoredAnalysis = {
+      videoId: VIDEO_ID,
+      analysis: buildVideoAnalysis(generateMockVideo({ id: VIDEO_ID }), []),
+      engine: "MockEngine",
+      model: "mock",
+      storedAt: new Date(NOW.getTime() - 60_000).toISOString(),
+    };
+    const repository: AnalysisRepository = {
+      get: vi.fn(async () => stored),
+      save: vi.fn(),
+      delete: vi.fn(),
+      list: vi.fn(),
+    };
+
+    const analysis = await pipeline.run(VIDEO_ID, { repository, maxAgeMs: 3_600_000 });
+
+    expect(analysis).toBe(stored.analysis);
+    expect(youtube.getVideo).not.toHaveBeenCalled();
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it("runs a full analysis when refreshing a stored analysis made with other options", async () => {
+    const youtube = createFakeYouTubeClient(createComments(5));
+    const { pipeline } = createPipeline(youtube);
+    const previousComments = ["c0", "c1"].map((id) => generateMockAnalyzedComment(VIDEO_ID, { id }));
+    const stored: StoredAnalysis = {
+      videoId: VIDEO_ID,
+      analysis: buildVideoAnalysis(generateMockVideo({ id: VIDEO_ID }), previousComments),
+      options: { maxComments: 2, mode: "legacy" },
+      engine: "MockEngine",
+      model: "mock",
+      storedAt: new Date(NOW.getTime() - 60_000).toISOString(),
+    };
+    const repository: AnalysisRepository = {
+      get: vi.fn(async () => stored),
+      save: vi.fn(),
+      delete: vi.fn(),
+      list: vi.fn(),
+    };
+
+    const analysis = await pipeline.run(VIDEO_ID, {
+      repository,
+      refresh: true,
+      analysisOptions: { maxComments: 5, mode: "legacy" },
+    });
+
+    expect(youtube.getComments).toHaveBeenCalledWith(VIDEO_ID, expect.not.objectContaining({ publishedAfter: expect.anything() }));
+    expect(analysis.comments).toHaveLength(5);
+  });
+
+  it("fails with NO_COMMENTS when the video has none", async () => {
+    const { pipeline } = createPipeline(createFakeYouTubeClient([]));
+
+    await expect(pipeline.run(VIDEO_ID)).rejects.toMatchObject({ code: "NO_COMMENTS" });
+  });
+
+  it("stops when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const youtube = createFakeYouTubeClient(createComments(3));
+    const { pipeline } = createPipeline(youtube);
+
+    await expect(pipeline.run(VIDEO_ID, { signal: controller.signal })).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(youtube.getComments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { analyzeBatchWithRecovery } from "../batch-recovery";
+import { AnalysisError } from "@/types";
+import type { BatchAnalysisResponse, SentimentAnalysis, YouTubeComment } from "@/types";
+
+function makeComments(count: number): YouTubeComment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `c${i}`,
+    videoId: "video",
+    author: `author${i}`,
+    text: `comment ${i}`,
+    likeCount: 0,
+    publishedAt: "2024-01-01T00:00:00Z",
+  }));
+}
+
+function analysisFor(comment: YouTubeComment): SentimentAnalysis {
+  return { commentId: comment.id, score: 0.5, weightedScore: 0.5, emotions: [], isSarcasm: false };
+}
+
+function respond(comments: YouTubeComment[]): BatchAnalysisResponse {
+  return { analyses: comments.map(analysisFor), processingTimeMs: 0 };
+}
+
+describe("analyzeBatchWithRecovery", () => {
+  it("matches results by commentId regardless of order", async () => {
+    const comments = makeComments(3);
+    const analyze = vi.fn(async (batch: YouTubeComment[]) => respond([...batch].reverse()));
+
+    const result = await analyzeBatchWithRecovery(comments, analyze);
+
+    expect([...result.analyses.keys()].sort()).toEqual(["c0", "c1", "c2"]);
+    expect(result.failures.size).toBe(0);
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-submits only the comments missing from truncated output", async () => {
+    const comments = makeComments(4);
+    const analyze = vi.fn(async (batch: YouTubeComment[]) => respond(batch.slice(0, 2)));
+
+    const result = await analyzeBatchWithRecovery(comments, analyze);
+
+    expect(result.analyses.size).toBe(4);
+    expect(analyze.mock.calls.map(([batch]) => batch.map((c) => c.id))).toEqual([
+      ["c0", "c1", "c2", "c3"],
+      ["c2", "c3"],
+    ]);
+  });
+
+  it("bisects sub-batches that fail outright", async () => {
+    const comments = makeComments(4);
+    // The model chokes on any batch containing c3
+    const analyze = vi.fn(async (batch: YouTubeComment[]) => {
+      if (batch.some((c) => c.id === "c3")) throw new SyntaxError("Unexpected token");
+      return respond(batch);
+    });
+
+    const result = await analyzeBatchWithRecovery(comments, analyze, { maxExtraCalls: 4 });
+
+    expect([...result.analyses.keys()].sort()).toEqual(["c0", "c1", "c2"]);
+    expect(result.failures.get("c3")).toBe("Unexpected token");
+  });
+
+  it("stops when the retry budget runs out", async () => {
+    const comments = makeComments(4);
+    const analyze = vi.fn(async () => respond([]));
+
+    const result = await analyzeBatchWithRecovery(comments, analyze, { maxExtraCalls: 2 });
+
+    expect(analyze).toHaveBeenCalledTimes(3);
+    expect(result.failures.size).toBe(4);
+    expect(result.failures.get("c0")).toBe("Missing from model output");
+  });
+
+  it("ignores IDs that were not in the sub-batch", async () => {
+    const comments = makeComments(1);
+    const analyze = vi.fn(async () => ({
+      analyses: [analysisFor({ ...comments[0], id: "invented" })],
+      processingTimeMs: 0,
+    }));
+
+    const result = await analyzeBatchWithRecovery(comments, analyze, { maxExtraCalls: 0 });
+
+    expect(result.analyses.size).toBe(0);
+    expect(result.failures.has("c0")).toBe(true);
+  });
+
+  it("propagates quota errors without retrying", async () => {
+    const analyze = vi.fn(async () => {
+      throw new AnalysisError("GROQ quota exceeded", "GROQ_QUOTA_EXCEEDED");
+    });
+
+    await expect(analyzeBatchWithRecovery(makeComments(2), analyze)).rejects.toMatchObject({
+      code: "GROQ_QUOTA_EXCEEDED",
+    });
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+});
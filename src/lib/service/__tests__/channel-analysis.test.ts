@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import { ChannelAnalysisRunner, type ChannelYouTubeClient } from "../channel-analysis";
+import { buildVideoAnalysis } from "@/lib/analysis/aggregate";
+import { generateMockAnalyzedComment, generateMockVideo } from "@/lib/mock-data/generators";
+import { AnalysisError, type ChannelProgressEvent, type YouTubePlaylistItem } from "@/types";
+
+const NOW = new Date("2024-02-01T00:00:00Z");
+
+function createFakeYouTubeClient(uploads: YouTubePlaylistItem[]) {
+  return {
+    getChannel: vi.fn(async () => ({
+      id: "UC123",
+      title: "Creator",
+      thumbnailUrl: "",
+      videoCount: uploads.length,
+      uploadsPlaylistId: "UU123",
+    })),
+    getPlaylistItems: vi.fn(async (_playlistId: string, options?: { maxItems?: number }) =>
+      uploads.slice(0, options?.maxItems)
+    ),
+  } satisfies ChannelYouTubeClient;
+}
+
+function upload(videoId: string, position: number): YouTubePlaylistItem {
+  return { videoId, title: `Video ${videoId}`, publishedAt: `2024-01-0${9 - position}T00:00:00Z`, position };
+}
+
+function createRunner(uploads: YouTubePlaylistItem[], failures: Record<string, Error> = {}) {
+  const youtube = createFakeYouTubeClient(uploads);
+  const pipeline = {
+    run: vi.fn(async (videoId: string) => {
+      if (failures[videoId]) throw failures[videoId];
+      return buildVideoAnalysis(
+        generateMockVideo({ id: videoId, title: `Video ${videoId}` }),
+        [generateMockAnalyzedComment(videoId, { author: "alice", authorChannelId: "channel-alice", sentiment: 0.5 })]
+      );
+    }),
+  };
+  const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const runner = new ChannelAnalysisRunner({ youtubeClient: youtube, pipeline, now: () => NOW, logger });
+  return { runner, youtube, pipeline };
+}
+
+describe("ChannelAnalysisRunner", () => {
+  const uploads = [upload("a", 0), upload("b", 1), upload("c", 2)];
+
+  it("analyzes recent uploads with the per-video comment budget", async () => {
+    const { runner, youtube, pipeline } = createRunner(uploads);
+    const events: ChannelProgressEvent[] = [];
+
+    const report = await runner.run(
+      { type: "handle", value: "@creator" },
+      { maxVideos: 2, commentsPerVideo: 50, onProgress: (event) => events.push(event) }
+    );
+
+    expect(youtube.getPlaylistItems).toHaveBeenCalledWith("UU123", { maxItems: 2 });
+    expect(pipeline.run).toHaveBeenCalledTimes(2);
+    expect(pipeline.run).toHaveBeenCalledWith("a", expect.objectContaining({ analysisOptions: { maxComments: 50 } }));
+    expect(report.videos.map((v) => v.videoId)).toEqual(["a", "b"]);
+    expect(report.recurringCommenters).toHaveLength(1);
+    expect(report.analyzedAt).toBe(NOW.toISOString());
+    expect(events.map((e) => e.type)).toEqual([
+      "channel", "videoStart", "videoComplete", "videoStart", "videoComplete", "complete",
+    ]);
+  });
+
+  it("skips uploads that cannot be analyzed", async () => {
+    const { runner } = createRunner(uploads, { b: new AnalysisError("No comments found for this video", "NO_COMMENTS") });
+
+    const report = await runner.run({ type: "id", value: "UC123" });
+
+    expect(report.videos.map((v) => v.videoId)).toEqual(["a", "c"]);
+    expect(report.failedVideos).toEqual([{ videoId: "b", title: "Video b", error: "No comments found for this video" }]);
+  });
+
+  it("stops once the YouTube quota runs out", async () => {
+    const quotaError = Object.assign(new Error("budget"), { code: "QUOTA_BUDGET_EXCEEDED" });
+    const { runner, pipeline } = createRunner(uploads, { b: quotaError });
+
+    const report = await runner.run({ type: "id", value: "UC123" });
+
+    expect(pipeline.run).toHaveBeenCalledTimes(2);
+    expect(report.videos.map((v) => v.videoId)).toEqual(["a"]);
+    expect(report.failedVideos).toHaveLength(1);
+  });
+
+  it("fails when no upload could be analyzed", async () => {
+    const { runner } = createRunner([]);
+
+    await expect(runner.run({ type: "id", value: "UC123" })).rejects.toMatchObject({ code: "NO_VIDEOS" });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { estimateAnalysisCost } from "../cost-estimate";
+import { generateMockVideo } from "@/lib/mock-data/generators";
+
+const baseInput = {
+  maxComments: 1000,
+  richTierThreshold: 200,
+  batchSize: 50,
+  axisMode: true,
+  model: "openai.responses:gpt-4o-mini",
+};
+
+describe("estimateAnalysisCost", () => {
+  it("applies the tiered sampling rules", () => {
+    const estimate = estimateAnalysisCost({ ...baseInput, video: generateMockVideo({ commentCount: 5000 }) });
+
+    expect(estimate.sampledComments).toBe(1000);
+    expect(estimate.richComments).toBe(200);
+    expect(estimate.liteComments).toBe(800);
+    expect(estimate.batches).toBe(20);
+  });
+
+  it("handles videos with fewer comments than the limits", () => {
+    const estimate = estimateAnalysisCost({ ...baseInput, video: generateMockVideo({ commentCount: 120 }) });
+
+    expect(estimate.richComments).toBe(120);
+    expect(estimate.liteComments).toBe(0);
+    expect(estimate.batches).toBe(3);
+  });
+
+  it("projects more tokens and cost for the full prompt than the lite one", () => {
+    const video = generateMockVideo({ commentCount: 200 });
+    const rich = estimateAnalysisCost({ ...baseInput, video, richTierThreshold: 200 });
+    const lite = estimateAnalysisCost({ ...baseInput, video, richTierThreshold: 0 });
+
+    expect(rich.totalTokens).toBeGreaterThan(lite.totalTokens);
+    expect(rich.estimatedCostUsd!).toBeGreaterThan(lite.estimatedCostUsd!);
+    expect(rich.estimatedDurationMs).toBeGreaterThan(0);
+  });
+
+  it("reports an unknown cost for unpriced models", () => {
+    const estimate = estimateAnalysisCost({
+      ...baseInput,
+      video: generateMockVideo({ commentCount: 10 }),
+      model: "acme:mystery",
+    });
+
+    expect(estimate.estimatedCostUsd).toBeNull();
+    expect(estimate.totalTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Map analysis pipeline errors to user-facing messages and HTTP statuses
+ */
+
+export interface DescribedError {
+  message: string;
+  status: number;
+}
+
+/**
+ * Describe an error thrown while analyzing a video
+ */
+export function describeAnalysisError(error: unknown): DescribedError {
+  if (error && typeof error === "object" && "code" in error) {
+    const apiError = error as { code: unknown; message: string; statusCode?: number };
+
+    // Handle specific YouTube API errors
+    if (apiError.code === "VIDEO_NOT_FOUND") {
+      return { message: "Video not found. Please check the URL.", status: 404 };
+    }
+
+    if (apiError.code === "CHANNEL_NOT_FOUND") {
+      return { message: "Channel not found. Please check the URL or handle.", status: 404 };
+    }
+
+    if (apiError.code === "PLAYLIST_NOT_FOUND") {
+      return { message: "Playlist not found. It may be private, or a generated mix.", status: 404 };
+    }
+
+    if (apiError.code === "NO_VIDEOS") {
+      return { message: apiError.message || "No videos could be analyzed for this channel", status: 404 };
+    }
+
+    if (apiError.code === "COMMENTS_DISABLED") {
+      return { message: "Comments are disabled for this video.", status: 403 };
+    }
+
+    if (apiError.code === "NO_COMMENTS") {
+      return { message: "No comments found for this video", status: 404 };
+    }
+
+    if (apiError.code === "TIMEOUT") {
+      return { message: "Request timeout. The video may have too many comments.", status: 408 };
+    }
+
+    if (apiError.code === "QUOTA_BUDGET_EXCEEDED" || apiError.code === "quotaExceeded") {
+      return { message: "YouTube API daily quota exhausted. Please try again after the daily reset.", status: 429 };
+    }
+
+    // LLM provider quotas: GEMINI_/GROQ_/OPENAI_/..._QUOTA_EXCEEDED
+    if (typeof apiError.code === "string" && apiError.code.endsWith("_QUOTA_EXCEEDED")) {
+      return { message: "API quota exceeded. Please wait a minute before trying again.", status: 429 };
+    }
+
+    return {
+      message: apiError.message || "API error occurred",
+      status: apiError.statusCode || 500,
+    };
+  }
+
+  return { message: "An unexpected error occurred", status: 500 };
+}
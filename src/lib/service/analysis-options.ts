@@ -0,0 +1,197 @@
+/**
+ * Per-request analysis options
+ *
+ * Requests may override the server's analysis configuration (axis mode,
+ * sampling, provider, comment fetching, output language). Values are
+ * validated here and resolved against the environment, which stays the
+ * default and, for the sampling limits, the upper bound.
+ */
+
+import { z } from "zod";
+import { SAMPLING_STRATEGY_NAMES } from "@/lib/analysis/sampling";
+import type { AnalysisOptions, SamplingStrategyName } from "@/types";
+
+export const AnalysisOptionsSchema = z.object({
+  mode: z.enum(["legacy", "axis"]).optional(),
+  maxComments: z.number().int().positive().optional(),
+  richTierThreshold: z.number().int().nonnegative().optional(),
+  provider: z.enum(["openai", "groq", "gemini", "openai-compatible"]).optional(),
+  includeReplies: z.boolean().optional(),
+  order: z.enum(["relevance", "time"]).optional(),
+  language: z.enum(["en", "ja"]).optional(),
+  sampling: z.enum(SAMPLING_STRATEGY_NAMES).optional(),
+  seed: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * Body of /api/analyze and /api/analyze/stream; options sit alongside the URL
+ */
+export const AnalyzeRequestSchema = AnalysisOptionsSchema.extend({
+  url: z.string().trim().min(1, "URL is required"),
+  force: z.boolean().optional(), // Re-run even if a stored analysis exists
+  refresh: z.boolean().optional(), // Only analyze comments newer than the stored analysis
+});
+
+export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
+
+/**
+ * Body of /api/channel/stream; `maxComments` is replaced by the per-video budget
+ */
+export const ChannelAnalysisRequestSchema = AnalysisOptionsSchema.omit({ maxComments: true }).extend({
+  channel: z.string().trim().min(1, "Channel is required"), // URL, @handle or channel ID
+  maxVideos: z.number().int().positive().optional(),
+  commentsPerVideo: z.number().int().positive().optional(),
+  force: z.boolean().optional(), // Re-run uploads that have a stored analysis
+});
+
+export type ChannelAnalysisRequest = z.infer<typeof ChannelAnalysisRequestSchema>;
+
+/**
+ * Body of /api/playlist; the options apply to every video of the playlist
+ */
+export const PlaylistAnalysisRequestSchema = AnalysisOptionsSchema.extend({
+  url: z.string().trim().min(1, "URL is required"),
+  maxVideos: z.number().int().positive().optional(),
+  force: z.boolean().optional(), // Re-run videos that have a stored analysis
+});
+
+export type PlaylistAnalysisRequest = z.infer<typeof PlaylistAnalysisRequestSchema>;
+
+/**
+ * Options with every server default filled in
+ */
+export interface ResolvedAnalysisOptions {
+  mode: NonNullable<AnalysisOptions["mode"]>;
+  maxComments: number;
+  richTierThreshold: number;
+  provider?: AnalysisOptions["provider"];
+  includeReplies: boolean;
+  order: NonNullable<AnalysisOptions["order"]>;
+  language?: AnalysisOptions["language"];
+  sampling: SamplingStrategyName;
+  seed?: number;
+}
+
+/**
+ * Tiered sampling limits: `richTierThreshold` comments (chosen by the
+ * sampling strategy) get the full prompt, the rest up to `maxComments` the lite prompt
+ */
+export function getSamplingLimits(): { maxComments: number; richTierThreshold: number } {
+  return {
+    maxComments: parseInt(process.env.MAX_COMMENTS || "1000"),
+    richTierThreshold: parseInt(process.env.RICH_TIER_THRESHOLD || "200"),
+  };
+}
+
+/**
+ * Channel analysis limits: how many recent uploads are analyzed and how
+ * many comments are fetched per upload (both also capped by MAX_COMMENTS)
+ */
+export function getChannelLimits(): { maxVideos: number; commentsPerVideo: number } {
+  return {
+    maxVideos: parseInt(process.env.CHANNEL_MAX_VIDEOS || "10"),
+    commentsPerVideo: parseInt(process.env.CHANNEL_COMMENTS_PER_VIDEO || "200"),
+  };
+}
+
+/**
+ * Videos queued per playlist batch
+ */
+export function getPlaylistMaxVideos(): number {
+  return parseInt(process.env.PLAYLIST_MAX_VIDEOS || "25");
+}
+
+/**
+ * Validate a request body; the error message names the offending field
+ */
+export function parseAnalyzeRequest(
+  body: unknown
+): { success: true; data: AnalyzeRequest } | { success: false; error: string } {
+  return parseRequest(AnalyzeRequestSchema, body);
+}
+
+/**
+ * Validate a channel analysis request body
+ */
+export function parseChannelAnalysisRequest(
+  body: unknown
+): { success: true; data: ChannelAnalysisRequest } | { success: false; error: string } {
+  return parseRequest(ChannelAnalysisRequestSchema, body);
+}
+
+/**
+ * Validate a playlist analysis request body
+ */
+export function parsePlaylistAnalysisRequest(
+  body: unknown
+): { success: true; data: PlaylistAnalysisRequest } | { success: false; error: string } {
+  return parseRequest(PlaylistAnalysisRequestSchema, body);
+}
+
+function parseRequest<T>(
+  schema: z.ZodType<T>,
+  body: unknown
+): { success: true; data: T } | { success: false; error: string } {
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const issue = result.error.issues[0];
+  const field = issue.path.join(".");
+  return { success: false, error: field ? `Invalid ${field}: ${issue.message}` : issue.message };
+}
+
+/**
+ * The analysis options contained in a request
+ */
+export function pickAnalysisOptions(request: AnalysisOptions): AnalysisOptions {
+  const { mode, maxComments, richTierThreshold, provider, includeReplies, order, language, sampling, seed } = request;
+  return { mode, maxComments, richTierThreshold, provider, includeReplies, order, language, sampling, seed };
+}
+
+/**
+ * Fill in server defaults. Sampling limits from the environment are upper
+ * bounds, so requests cannot spend more quota than the server allows.
+ */
+export function resolveAnalysisOptions(options?: AnalysisOptions): ResolvedAnalysisOptions {
+  const limits = getSamplingLimits();
+  const maxComments = Math.min(options?.maxComments ?? limits.maxComments, limits.maxComments);
+
+  return {
+    mode: options?.mode ?? (process.env.USE_AXIS_MODE === "true" ? "axis" : "legacy"),
+    maxComments,
+    richTierThreshold: Math.min(options?.richTierThreshold ?? limits.richTierThreshold, limits.richTierThreshold, maxComments),
+    provider: options?.provider,
+    includeReplies: options?.includeReplies ?? true,
+    order: options?.order ?? "relevance",
+    language: options?.language,
+    sampling: options?.sampling ?? getDefaultSamplingStrategy(),
+    seed: options?.seed,
+  };
+}
+
+/**
+ * SAMPLING_STRATEGY, or "top-likes" when unset or unknown
+ */
+function getDefaultSamplingStrategy(): SamplingStrategyName {
+  const configured = process.env.SAMPLING_STRATEGY as SamplingStrategyName | undefined;
+  return configured && SAMPLING_STRATEGY_NAMES.includes(configured) ? configured : "top-likes";
+}
+
+/**
+ * Whether two runs used settings that produce comparable results
+ */
+export function isSameAnalysisOptions(a: ResolvedAnalysisOptions, b: ResolvedAnalysisOptions): boolean {
+  return (
+    a.mode === b.mode &&
+    a.maxComments === b.maxComments &&
+    a.richTierThreshold === b.richTierThreshold &&
+    a.provider === b.provider &&
+    a.includeReplies === b.includeReplies &&
+    a.order === b.order &&
+    a.language === b.language &&
+    a.sampling === b.sampling &&
+    a.seed === b.seed
+  );
+}
@@ -0,0 +1,675 @@
+/**
+ * Analysis Pipeline
+ *
+ * Runs the full analysis of a video: metadata, transcript, context summary,
+ * optional Axis Profile, comment fetching, spam filtering and batched LLM
+ * analysis.
+ * Progress is reported through an optional callback so callers can stream it.
+ *
+ * The YouTube client, engine, clock and logger are injectable, so the same
+ * pipeline serves routes, jobs, scripts and tests.
+ */
+
+import { createYouTubeClient, type YouTubeClient } from "@/lib/youtube/client";
+import { createAnalysisEngine } from "@/lib/engine/factory";
+import { analyzeBatchWithRecovery } from "@/lib/service/batch-recovery";
+import { isSameAnalysisOptions, resolveAnalysisOptions } from "@/lib/service/analysis-options";
+import { UsageLedger } from "@/lib/usage/ledger";
+import type { AnalysisEngine } from "@/lib/engine/types";
+import { buildVideoAnalysis, hasStance } from "@/lib/analysis/aggregate";
+import { sampleComments, seedFromString, type TieredSample } from "@/lib/analysis/sampling";
+import { detectSpam } from "@/lib/analysis/spam";
+import { sleep as defaultSleep } from "@/lib/retry/backoff";
+import type { AnalysisRepository, StoredAnalysis } from "@/lib/repository";
+import {
+  createCommentAnalysisKey,
+  hashAxisProfile,
+  type CommentAnalysisCache,
+} from "@/lib/cache/comment-analysis-cache";
+import { PROMPT_VERSION } from "@/lib/llm/prompts";
+import {
+  AnalysisError,
+  type AnalysisEngineConfig,
+  type AnalysisOptions,
+  type AnalysisProgressEvent,
+  type AnalyzedComment,
+  type AxisProfile,
+  type SamplingInfo,
+  type BatchAnalysisRequest,
+  type BatchAnalysisResponse,
+  type SentimentAnalysis,
+  type SpamReason,
+  type VideoAnalysis,
+  type YouTubeComment,
+} from "@/types";
+
+// Parallel processing configuration
+export const MAX_CONCURRENT_BATCHES = 3; // Process 3 batches in parallel
+
+export interface AnalysisPipelineOptions {
+  /**
+   * Called for every completed phase and batch
+   */
+  onProgress?: (event: AnalysisProgressEvent) => void;
+
+  /**
+   * Aborts the run between phases and batch groups
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Server-side store consulted before fetching anything and updated after a run
+   */
+  repository?: AnalysisRepository | null;
+
+  /**
+   * Maximum age of a stored analysis that may be reused
+   */
+  maxAgeMs?: number;
+
+  /**
+   * Ignore any stored analysis and run the full pipeline
+   * (a stored Axis Profile is still reused)
+   */
+  forceRefresh?: boolean;
+
+  /**
+   * Per-comment result cache; only uncached comments are sent to the LLM
+   */
+  commentCache?: CommentAnalysisCache | null;
+
+  /**
+   * Incremental mode: fetch only comments newer than the stored analysis,
+   * analyze the delta and merge it into the stored result
+   */
+  refresh?: boolean;
+
+  /**
+   * Per-request overrides of the server's analysis configuration
+   */
+  analysisOptions?: AnalysisOptions;
+}
+
+/**
+ * Throw if the run was cancelled by the caller
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AnalysisError("Analysis was cancelled", "CANCELLED");
+  }
+}
+
+/**
+ * YouTube client methods the pipeline uses; tests can pass a fake
+ */
+export type PipelineYouTubeClient = Pick<YouTubeClient, "getVideo" | "getTranscript" | "getComments">;
+
+export type PipelineLogger = Pick<Console, "log" | "warn" | "error">;
+
+export interface AnalysisPipelineHooks {
+  /**
+   * Called for every progress event of every run, after the run's own callback
+   */
+  onProgress?: (event: AnalysisProgressEvent, videoId: string) => void;
+}
+
+export interface AnalysisPipelineDependencies {
+  /**
+   * Default: createYouTubeClient(), created on first use
+   */
+  youtubeClient?: PipelineYouTubeClient;
+
+  /**
+   * Default: a new engine per run from the factory, configured with the
+   * run's provider and language. An injected engine is used as-is and
+   * should not be shared by concurrent runs (usage is recorded on it).
+   */
+  engine?: AnalysisEngine;
+
+  now?: () => Date;
+  sleep?: (ms: number) => Promise<void>;
+  logger?: PipelineLogger;
+  hooks?: AnalysisPipelineHooks;
+}
+
+interface AnalyzeCommentsContext {
+  videoId: string;
+  engine: AnalysisEngine;
+  axisProfile?: AxisProfile;
+  videoContext: NonNullable<BatchAnalysisRequest["videoContext"]>;
+  commentCache?: CommentAnalysisCache | null;
+  language?: AnalysisOptions["language"];
+  signal?: AbortSignal;
+  emit: (event: AnalysisProgressEvent) => void;
+}
+
+/**
+ * Orchestrates the analysis of a video: stored-result reuse, metadata,
+ * transcript and summary, Axis Profile, comment fetching, spam filtering,
+ * tiered sampling, cached and batched LLM analysis, aggregation and storage.
+ */
+export class AnalysisPipeline {
+  private youtubeClient: PipelineYouTubeClient | null;
+  private readonly engine: AnalysisEngine | null;
+  private readonly now: () => Date;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly logger: PipelineLogger;
+  private readonly hooks: AnalysisPipelineHooks;
+
+  constructor(dependencies: AnalysisPipelineDependencies = {}) {
+    this.youtubeClient = dependencies.youtubeClient || null;
+    this.engine = dependencies.engine || null;
+    this.now = dependencies.now || (() => new Date());
+    this.sleep = dependencies.sleep || defaultSleep;
+    this.logger = dependencies.logger || console;
+    this.hooks = dependencies.hooks || {};
+  }
+
+  /**
+   * Run the analysis pipeline for a single video
+   */
+  async run(
+    videoId: string,
+    options?: AnalysisPipelineOptions
+  ): Promise<VideoAnalysis> {
+    const emit = (event: AnalysisProgressEvent) => {
+      options?.onProgress?.(event);
+      this.hooks.onProgress?.(event, videoId);
+    };
+    const signal = options?.signal;
+    const repository = options?.repository;
+    const settings = resolveAnalysisOptions(options?.analysisOptions);
+
+    // Reuse a stored analysis before spending YouTube or LLM quota
+    const stored = repository ? await repository.get(videoId) : null;
+    const storedMatches = !!stored && (!stored.options || isSameAnalysisOptions(resolveAnalysisOptions(stored.options), settings));
+    if (stored && storedMatches && !options?.forceRefresh && !options?.refresh && isStoredAnalysisFresh(stored, options?.maxAgeMs, this.now())) {
+      this.logger.log(`[Pipeline] Using stored analysis for ${videoId} from ${stored.storedAt}`);
+      replayAnalysis(stored.analysis, emit);
+      return stored.analysis;
+    }
+
+    // Incremental refresh needs a previous run with the same options to extend
+    const previous = options?.refresh && storedMatches ? stored : null;
+    if (options?.refresh && !previous) {
+      this.logger.log(stored
+        ? `[Pipeline] Stored analysis for ${videoId} used different options; running a full analysis instead of a refresh`
+        : `[Pipeline] No stored analysis for ${videoId}; running a full analysis instead of a refresh`);
+    }
+
+    const youtubeClient = this.getYouTubeClient();
+    const engine = this.getEngine({ provider: settings.provider, language: settings.language });
+
+    const ledger = new UsageLedger();
+    engine.setUsageRecorder?.(ledger);
+
+    // Fetch video metadata
+    const video = await youtubeClient.getVideo(videoId);
+    emit({ type: "video", video });
+
+    throwIfCancelled(signal);
+
+    let summary: string;
+    if (previous?.summary) {
+      // The video itself has not changed since the previous run
+      summary = previous.summary;
+      emit({ type: "summary", summary });
+    } else {
+      // Fetch transcript and generate summary for context
+      this.logger.log(`[Pipeline] Fetching transcript for context...`);
+      const transcript = await youtubeClient.getTranscript(videoId);
+      video.transcript = transcript;
+      emit({ type: "transcript", length: transcript.length });
+
+      throwIfCancelled(signal);
+
+      this.logger.log(`[Pipeline] Generating context summary...`);
+      summary = await engine.generateContextSummary({
+        title: video.title,
+        channelName: video.channelName,
+        description: video.description,
+        transcript: transcript,
+      });
+      this.logger.log(`[Pipeline] Context ready: ${summary.slice(0, 100)}...`);
+      emit({ type: "summary", summary });
+    }
+
+    throwIfCancelled(signal);
+
+    // Check if Axis-based mode is enabled
+    const useAxisMode = settings.mode === "axis";
+    let axisProfile: AxisProfile | undefined;
+
+    if (useAxisMode && stored?.axisProfile) {
+      // Keep the profile stable across runs so cached comment analyses stay valid
+      axisProfile = stored.axisProfile;
+      this.logger.log(`[Pipeline] Reusing stored Axis Profile: ${axisProfile.mainAxis}`);
+      emit({ type: "axisProfile", axisProfile });
+    } else if (useAxisMode && engine.generateAxisProfile) {
+      this.logger.log(`[Pipeline] Generating Axis Profile for stance analysis...`);
+      if (video.transcript === undefined) {
+        video.transcript = await youtubeClient.getTranscript(videoId);
+      }
+      axisProfile = await engine.generateAxisProfile({
+        id: videoId,
+        title: video.title,
+        channelName: video.channelName,
+        description: video.description,
+        transcript: video.transcript,
+      });
+      this.logger.log(`[Pipeline] Axis Profile generated: ${axisProfile.mainAxis}`);
+      emit({ type: "axisProfile", axisProfile });
+    }
+
+    throwIfCancelled(signal);
+
+    // Fetch comments with tiered sampling limits
+    const { maxComments, richTierThreshold, includeReplies } = settings;
+
+    this.logger.log(`[Pipeline] Tiered sampling: max=${maxComments}, richTier=${richTierThreshold}, strategy=${settings.sampling}`);
+
+    let comments: YouTubeComment[];
+    const previousComments = previous?.analysis.comments || [];
+
+    if (previous) {
+      // Only page through comments newer than the previous run's newest one
+      const since = getNewestPublishedAt(previousComments);
+      this.logger.log(`[Pipeline] Refreshing comments published after ${since || "the beginning"}`);
+
+      const knownIds = new Set(previousComments.map((c) => c.id));
+      comments = (await youtubeClient.getComments(videoId, { maxComments, order: "time", includeReplies, publishedAfter: since }))
+        .filter((c) => !knownIds.has(c.id));
+    } else {
+      comments = await youtubeClient.getComments(videoId, { maxComments, order: settings.order, includeReplies });
+
+      if (comments.length === 0) {
+        throw new AnalysisError("No comments found for this video", "NO_COMMENTS");
+      }
+    }
+
+    // Filter spam before sampling so it never reaches the LLM; previous
+    // comments are the originals that new copies are checked against
+    const spam = detectSpam([...previousComments, ...comments]);
+    const spamComments = comments
+      .filter((c) => spam.has(c.id))
+      .map((c) => toSpamComment(c, spam.get(c.id)!));
+    if (spamComments.length > 0) {
+      this.logger.log(`[Pipeline] Filtered ${spamComments.length} of ${comments.length} comments as spam`);
+    }
+
+    // TIERED SAMPLING: the strategy picks which comments get the full prompt
+    const seed = settings.seed ?? seedFromString(videoId);
+    const sample = sampleComments(comments.filter((c) => !spam.has(c.id)), { strategy: settings.sampling, richSize: richTierThreshold, seed });
+    this.logger.log(`[Pipeline] Sampled ${sample.rich.length} rich and ${sample.lite.length} lite comments (${settings.sampling})`);
+
+    // Populate parentText for replies to provide context to the LLM
+    const commentMap = new Map([...previousComments, ...comments].map(c => [c.id, c.text]));
+    comments.forEach(c => {
+      if (c.parentId && commentMap.has(c.parentId)) {
+        c.parentText = commentMap.get(c.parentId);
+      }
+    });
+
+    if (previousComments.length > 0) {
+      // Show the previous results right away; only the delta is analyzed
+      emit({ type: "cached", comments: previousComments });
+    }
+
+    if (spamComments.length > 0) {
+      emit({ type: "filtered", comments: spamComments });
+    }
+
+    const { analyzedComments, isPartial } = await this.analyzeComments(sample, {
+      videoId,
+      engine,
+      axisProfile: useAxisMode ? axisProfile : undefined,
+      videoContext: {
+        title: video.title,
+        channelName: video.channelName,
+        description: video.description,
+        summary: summary,
+      },
+      commentCache: options?.commentCache,
+      language: settings.language,
+      signal,
+      emit,
+    });
+
+    const resultComments = [...previousComments, ...spamComments, ...analyzedComments];
+    const analysis = buildVideoAnalysis(video, resultComments, {
+      isPartial: isPartial || previous?.analysis.isPartial,
+      usage: engine.setUsageRecorder ? ledger.summarize() : undefined,
+      sampling: describeSampling(video.commentCount, resultComments, {
+        strategy: settings.sampling,
+        seed: settings.sampling === "like-weighted" || settings.sampling === "random" ? seed : undefined,
+        richComments: (previous?.analysis.sampling?.richComments || 0) + sample.rich.length,
+      }),
+      axisProfile,
+      now: this.now(),
+    });
+
+    // Quota-degraded results are not worth sharing
+    if (repository && !analysis.isPartial) {
+      try {
+        await repository.save({
+          videoId,
+          analysis,
+          axisProfile,
+          summary,
+          engine: engine.name,
+          model: engine.getModelId?.() || "unknown",
+          options: settings,
+          storedAt: analysis.analyzedAt,
+        });
+      } catch (error) {
+        this.logger.warn(`[Pipeline] Failed to store analysis for ${videoId}:`, error);
+      }
+    }
+
+    emit({ type: "complete", analysis });
+
+    return analysis;
+  }
+
+  private getYouTubeClient(): PipelineYouTubeClient {
+    // Created lazily so runs served from the repository need no API key
+    if (!this.youtubeClient) {
+      this.youtubeClient = createYouTubeClient();
+    }
+    return this.youtubeClient;
+  }
+
+  private getEngine(config: Partial<AnalysisEngineConfig>): AnalysisEngine {
+    const engine = this.engine || createAnalysisEngine({ engineConfig: config }); // Auto-selects engine based on environment
+    this.logger.log(`[Pipeline] Using analysis engine: ${engine.name}`);
+    return engine;
+  }
+
+  /**
+   * Analyze a tiered sample in concurrent batches
+   */
+  private async analyzeComments(
+    sample: TieredSample,
+    context: AnalyzeCommentsContext
+  ): Promise<{ analyzedComments: AnalyzedComment[]; isPartial: boolean }> {
+    const { videoId, engine, axisProfile, videoContext, commentCache, signal, emit } = context;
+
+    const batchSize = engine.getConfig().batchSize;
+    const modelId = engine.getModelId?.() || engine.name;
+    const profileHash = hashAxisProfile(axisProfile);
+    const analyzedComments: AnalyzedComment[] = [];
+    let isPartialResult = false;
+
+    const tiers = [
+      { comments: sample.rich, isLite: false },
+      { comments: sample.lite, isLite: true },
+    ];
+    const total = sample.rich.length + sample.lite.length;
+
+    const cacheKeyFor = (comment: YouTubeComment, isLite: boolean) =>
+      createCommentAnalysisKey(comment, {
+        profileHash,
+        model: modelId,
+        promptVersion: `${PROMPT_VERSION}:${isLite ? "lite" : "rich"}${context.language ? `:${context.language}` : ""}`,
+      });
+
+    // Serve unchanged comments from the cache; batch only new or edited ones
+    const batches: Array<{ comments: YouTubeComment[]; isLite: boolean }> = [];
+    const cachedComments: AnalyzedComment[] = [];
+
+    for (const tier of tiers) {
+      const hits = commentCache && tier.comments.length > 0
+        ? await commentCache.getMany(videoId, tier.comments.map((c) => ({
+            key: cacheKeyFor(c, tier.isLite),
+            updatedAt: c.updatedAt,
+          })))
+        : new Map<string, SentimentAnalysis>();
+
+      const misses: YouTubeComment[] = [];
+      for (const comment of tier.comments) {
+        const hit = hits.get(comment.id);
+        if (hit) {
+          cachedComments.push(toAnalyzedComment(comment, hit));
+        } else {
+          misses.push(comment);
+        }
+      }
+
+      for (let i = 0; i < misses.length; i += batchSize) {
+        batches.push({ comments: misses.slice(i, i + batchSize), isLite: tier.isLite });
+      }
+    }
+
+    emit({ type: "comments", total, totalBatches: batches.length });
+
+    if (cachedComments.length > 0) {
+      this.logger.log(`[Pipeline] ${cachedComments.length} of ${total} comments served from cache`);
+      analyzedComments.push(...cachedComments);
+      emit({ type: "cached", comments: cachedComments });
+    }
+
+    let completedBatches = 0;
+    let quotaError: string | undefined;
+
+    // Process batches with concurrency limit
+    for (let i = 0; i < batches.length; i += MAX_CONCURRENT_BATCHES) {
+      throwIfCancelled(signal);
+
+      const currentBatchGroup = batches.slice(i, i + MAX_CONCURRENT_BATCHES);
+
+      this.logger.log(`[Pipeline] Processing batch group ${Math.floor(i / MAX_CONCURRENT_BATCHES) + 1} (${currentBatchGroup.length} batches concurrent)...`);
+
+      const results = await Promise.all(currentBatchGroup.map(async ({ comments: batch, isLite }, indexInGroup) => {
+        const batchIndex = i + indexInGroup;
+
+        // Once the provider quota is gone, further calls would fail the same way
+        if (quotaError) {
+          return { result: null, batch, isLite, error: quotaError };
+        }
+
+        const analyze = (comments: YouTubeComment[]): Promise<BatchAnalysisResponse> =>
+          axisProfile && engine.analyzeAxisBatch
+            ? engine.analyzeAxisBatch({ comments, isLite, videoContext, signal }, axisProfile)
+            : engine.analyzeBatch({ comments, isLite, videoContext, signal });
+
+        try {
+          const result = await analyzeBatchWithRecovery(batch, analyze);
+          return { result, batch, isLite, error: undefined };
+        } catch (err) {
+          if (err instanceof AnalysisError && err.code === "CANCELLED") throw err;
+
+          this.logger.error(`[Pipeline] Batch ${batchIndex + 1} failed:`, err);
+          const reason = err instanceof Error ? err.message : "Analysis failed";
+          if (err instanceof AnalysisError && err.code.endsWith("_QUOTA_EXCEEDED")) {
+            quotaError = reason;
+          }
+          return { result: null, batch, isLite, error: reason };
+        }
+      }));
+
+      // Process results
+      for (const { result, batch, isLite, error } of results) {
+        completedBatches++;
+
+        if (!result) {
+          // Keep failed comments in the sample as explicit Unknowns
+          this.logger.warn(`[Pipeline] Marking ${batch.length} comments from a failed batch as Unknown`);
+          isPartialResult = true;
+
+          const failedComments = batch.map((comment) => toFailedComment(comment, error || "Analysis failed"));
+          analyzedComments.push(...failedComments);
+          emit({ type: "batch", comments: failedComments, completedBatches, totalBatches: batches.length });
+          continue;
+        }
+
+        if (result.isPartial) isPartialResult = true;
+        if (result.failures.size > 0) isPartialResult = true;
+
+        const batchComments: AnalyzedComment[] = [];
+        const cacheEntries = [];
+
+        // Pair by commentId; the model may reorder or drop items
+        for (const comment of batch) {
+          const analysis = result.analyses.get(comment.id);
+
+          if (!analysis) {
+            batchComments.push(toFailedComment(comment, result.failures.get(comment.id) || "Analysis failed"));
+            continue;
+          }
+
+          batchComments.push(toAnalyzedComment(comment, analysis));
+          cacheEntries.push({ key: cacheKeyFor(comment, isLite), updatedAt: comment.updatedAt, analysis });
+        }
+
+        // Quota fallbacks are not real analyses; don't cache them
+        if (commentCache && !result.isPartial) {
+          try {
+            await commentCache.setMany(videoId, cacheEntries);
+          } catch (error) {
+            this.logger.warn(`[Pipeline] Failed to cache comment analyses:`, error);
+          }
+        }
+
+        analyzedComments.push(...batchComments);
+        emit({ type: "batch", comments: batchComments, completedBatches, totalBatches: batches.length });
+      }
+
+      // Small delay between concurrent groups
+      if (i + MAX_CONCURRENT_BATCHES < batches.length) {
+        await this.sleep(100);
+      }
+    }
+
+    return { analyzedComments, isPartial: isPartialResult };
+  }
+}
+
+/**
+ * Run the analysis pipeline for a single video with the default dependencies
+ */
+export async function runAnalysisPipeline(
+  videoId: string,
+  options?: AnalysisPipelineOptions
+): Promise<VideoAnalysis> {
+  return new AnalysisPipeline().run(videoId, options);
+}
+
+/**
+ * Sampling summary for a result; the rate is relative to the video's
+ * reported comment count. Only comments with a stance count as sampled,
+ * since spam and failed comments are left out of the distribution too.
+ */
+function describeSampling(
+  totalComments: number,
+  comments: AnalyzedComment[],
+  details: Pick<SamplingInfo, "strategy" | "seed" | "richComments">
+): SamplingInfo {
+  const sampledComments = comments.filter(hasStance).length;
+  return {
+    ...details,
+    totalComments,
+    sampledComments,
+    samplingRate: totalComments > 0 ? Math.min(1, sampledComments / totalComments) : 1,
+  };
+}
+
+/**
+ * Latest publishedAt among comments (ISO string), if any
+ */
+function getNewestPublishedAt(comments: YouTubeComment[]): string | undefined {
+  let newest: string | undefined;
+  for (const comment of comments) {
+    if (!newest || new Date(comment.publishedAt) > new Date(newest)) {
+      newest = comment.publishedAt;
+    }
+  }
+  return newest;
+}
+
+/**
+ * Merge a comment with its analysis result
+ */
+function toAnalyzedComment(comment: YouTubeComment, analysis: SentimentAnalysis): AnalyzedComment {
+  return {
+    ...comment,
+    sentiment: analysis.score,
+    weightedScore: analysis.weightedScore,
+    emotions: analysis.emotions,
+    isSarcasm: analysis.isSarcasm,
+    isRepeatUser: false, // Set across the whole video by buildVideoAnalysis
+    // Axis-based fields
+    label: analysis.label,
+    confidence: analysis.confidence,
+    axisEvidence: analysis.axisEvidence,
+    replyRelation: analysis.replyRelation,
+    provider: analysis.provider,
+    model: analysis.model,
+  };
+}
+
+/**
+ * Placeholder for a comment whose analysis failed
+ */
+function toFailedComment(comment: YouTubeComment, reason: string): AnalyzedComment {
+  return {
+    ...comment,
+    sentiment: 0,
+    weightedScore: 0,
+    emotions: [],
+    isSarcasm: false,
+    isRepeatUser: false,
+    label: "Unknown",
+    analysisError: reason,
+  };
+}
+
+/**
+ * Placeholder for a comment filtered as spam; it is never analyzed
+ */
+function toSpamComment(comment: YouTubeComment, reason: SpamReason): AnalyzedComment {
+  return {
+    ...comment,
+    sentiment: 0,
+    weightedScore: 0,
+    emotions: [],
+    isSarcasm: false,
+    isRepeatUser: false,
+    spamReason: reason,
+  };
+}
+
+/**
+ * Whether a stored analysis is recent enough to be reused
+ */
+export function isStoredAnalysisFresh(stored: StoredAnalysis, maxAgeMs?: number, now: Date = new Date()): boolean {
+  if (maxAgeMs === undefined) return true;
+  return now.getTime() - new Date(stored.storedAt).getTime() < maxAgeMs;
+}
+
+/**
+ * Emit the progress events of a finished analysis in one go
+ */
+function replayAnalysis(analysis: VideoAnalysis, emit: (event: AnalysisProgressEvent) => void): void {
+  emit({ type: "video", video: analysis.video });
+  emit({ type: "comments", total: analysis.comments.length, totalBatches: 1 });
+  emit({ type: "batch", comments: analysis.comments, completedBatches: 1, totalBatches: 1 });
+  emit({ type: "complete", analysis });
+}
+
+/**
+ * Produce a mock analysis (USE_MOCK_ENGINE) with the same progress events
+ */
+export async function runMockAnalysisPipeline(
+  commentCount: number,
+  options?: AnalysisPipelineOptions
+): Promise<VideoAnalysis> {
+  const emit = (event: AnalysisProgressEvent) => options?.onProgress?.(event);
+
+  const { generateMockDataset } = await import("@/lib/mock-data/generators");
+  const { video, comments } = generateMockDataset(commentCount);
+
+  const analysis = buildVideoAnalysis(video, comments);
+  replayAnalysis(analysis, emit);
+
+  return analysis;
+}
@@ -1,14 +1,17 @@
 
-import { generateObject, generateText } from 'ai';
+import { generateObject, generateText, type LanguageModel, type LanguageModelUsage } from 'ai';
 import { z } from 'zod';
-import { getModel } from '@/lib/llm/provider';
+import { getModelChain, formatModelId } from '@/lib/llm/provider';
+import { callLLMWithFailover, type FailoverResult } from '@/lib/llm/retry';
+import type { UsageRecorder } from '@/lib/usage/ledger';
 import {
     SYSTEM_PROMPT,
     createBatchPrompt,
     createLiteBatchPrompt,
     AXIS_SYSTEM_PROMPT,
     createAxisBatchPrompt,
-    createLiteAxisBatchPrompt
+    createLiteAxisBatchPrompt,
+    createLanguageInstruction
 } from '@/lib/llm/prompts';
 import {
     type YouTubeComment,
@@ -20,6 +23,7 @@ import {
     type SentimentScore,
     type EmotionTag,
     type StanceLabel,
+    type UsagePhase,
     type YouTubeVideo
 } from '@/types';
 import { sortCommentsByThreadOrder, applyStanceSynthesis } from '@/lib/engine/stance-logic';
@@ -91,6 +95,7 @@ const DEFAULT_CONFIG: AnalysisEngineConfig = {
 
 export class AnalysisService {
     private config: AnalysisEngineConfig;
+    private usageRecorder: UsageRecorder | null = null;
 
     readonly name = "AnalysisService";
 
@@ -104,6 +109,15 @@ export class AnalysisService {
         this.config = { ...this.config, ...config };
     }
 
+    getModelId(): string {
+        // The whole chain, so changing any fallback invalidates cached analyses
+        return getModelChain(this.config.provider).map(({ model }) => formatModelId(model)).join('|');
+    }
+
+    setUsageRecorder(recorder: UsageRecorder | null): void {
+        this.usageRecorder = recorder;
+    }
+
     async analyzeComment(comment: YouTubeComment): Promise<SentimentAnalysis> {
         const result = await this.analyzeBatch({
             comments: [comment],
@@ -127,14 +141,16 @@ Channel: ${video.channelName}
 Description: ${video.description?.slice(0, 500) || "N/A"}
 Transcript: ${video.transcript?.slice(0, 2000) || "N/A"}
 
-Provide a concise summary focusing on the main topic and key points.`;
+Provide a concise summary focusing on the main topic and key points.${createLanguageInstruction(this.config.language)}`;
 
         try {
-            const { text } = await generateText({
-                model: getModel(),
+            const { result: { text } } = await this.callLLM('summary', (model, abortSignal) => generateText({
+                model,
                 messages: [{ role: 'user', content: prompt }],
                 temperature: 0.3,
-            });
+                maxRetries: 0,
+                abortSignal,
+            }));
             return text;
         } catch (error) {
             console.error("Context summary failed:", error);
@@ -161,7 +177,9 @@ Provide a concise summary focusing on the main topic and key points.`;
             ];
 
             for (const query of queries) {
-                const results = await retrieveContext(query, chunks, 3);
+                const results = await retrieveContext(query, chunks, 3, ({ model, tokens }) =>
+                    this.usageRecorder?.record('embeddings', { model, promptTokens: tokens, completionTokens: 0 })
+                );
                 retrievedSnippets.push(...results.map(r => r.content));
             }
             retrievedSnippets = [...new Set(retrievedSnippets)];
@@ -174,15 +192,17 @@ Provide a concise summary focusing on the main topic and key points.`;
 CONTEXT:
 ${contextText}
 
-Generate the profile strictly conforming to the JSON schema.`;
+Generate the profile strictly conforming to the JSON schema.${createLanguageInstruction(this.config.language)}`;
 
         try {
-            const { object } = await generateObject({
-                model: getModel(),
+            const { result: { object } } = await this.callLLM('axisProfile', (model, abortSignal) => generateObject({
+                model,
                 schema: AxisProfileSchema,
                 messages: [{ role: 'user', content: prompt }],
                 temperature: 0.1,
-            });
+                maxRetries: 0,
+                abortSignal,
+            }));
 
             return {
                 ...object,
@@ -234,14 +254,16 @@ Generate the profile strictly conforming to the JSON schema.`;
 
         try {
             // Use generateText instead of generateObject to debug raw output and handle "chatty" or invalid JSON better
-            const { text, usage } = await generateText({
-                model: getModel(),
+            const { result: { text, usage }, provider, modelId } = await this.callLLM(isLite ? 'liteBatches' : 'richBatches', (model, abortSignal) => generateText({
+                model,
                 messages: [
-                    { role: 'system', content: AXIS_SYSTEM_PROMPT },
+                    { role: 'system', content: AXIS_SYSTEM_PROMPT + createLanguageInstruction(this.config.language) },
                     { role: 'user', content: promptContent }
                 ],
                 temperature: 0.1,
-            });
+                maxRetries: 0,
+                abortSignal,
+            }), request.signal);
 
             console.log(`[AnalysisService] Raw LLM Response (First 500 chars): ${text.slice(0, 500)}`);
 
@@ -325,6 +347,8 @@ Generate the profile strictly conforming to the JSON schema.`;
                     mainClaim: r.main_claim,
                     valueTradeoff: r.value_tradeoff,
                     stanceType: r.stance_type,
+                    provider,
+                    model: modelId,
                 } as SentimentAnalysis;
             });
 
@@ -357,15 +381,17 @@ Generate the profile strictly conforming to the JSON schema.`;
             : createBatchPrompt(comments, videoContext);
 
         try {
-            const { object, usage } = await generateObject({
-                model: getModel(),
+            const { result: { object, usage }, provider, modelId } = await this.callLLM(isLite ? 'liteBatches' : 'richBatches', (model, abortSignal) => generateObject({
+                model,
                 schema: SentimentSchema,
                 messages: [
-                    { role: 'system', content: SYSTEM_PROMPT },
+                    { role: 'system', content: SYSTEM_PROMPT + createLanguageInstruction(this.config.language) },
                     { role: 'user', content: promptContent }
                 ],
                 temperature: 0.1,
-            });
+                maxRetries: 0,
+                abortSignal,
+            }), request.signal);
 
             const rawResults = object.comments;
             const commentMap = new Map(comments.map(c => [c.id, c]));
@@ -382,6 +408,8 @@ Generate the profile strictly conforming to the JSON schema.`;
                     emotions: (r.emotions || []) as EmotionTag[],
                     isSarcasm: !!r.isSarcasm,
                     reason: r.reason,
+                    provider,
+                    model: modelId,
                 };
             });
 
@@ -399,6 +427,29 @@ Generate the profile strictly conforming to the JSON schema.`;
 
     // --- Helpers ---
 
+    /**
+     * Run an LLM call with the configured timeout and retry policy,
+     * failing over along the provider chain, and record its token usage
+     */
+    private async callLLM<T extends { usage: LanguageModelUsage }>(
+        phase: UsagePhase,
+        call: (model: LanguageModel, abortSignal: AbortSignal) => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<FailoverResult<T>> {
+        const response = await callLLMWithFailover(getModelChain(this.config.provider), call, {
+            timeoutMs: this.config.timeoutMs,
+            signal,
+        });
+
+        this.usageRecorder?.record(phase, {
+            model: response.modelId,
+            promptTokens: response.result.usage.inputTokens ?? 0,
+            completionTokens: response.result.usage.outputTokens ?? 0,
+        });
+
+        return response;
+    }
+
     private clampScore(score: number): number {
         return Math.max(-1, Math.min(1, score));
     }
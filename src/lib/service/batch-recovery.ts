@@ -0,0 +1,100 @@
+/**
+ * Recovery for LLM batches that come back truncated or malformed
+ *
+ * Results are matched to comments by `commentId`. Comments the model left
+ * out are re-submitted on their own; a sub-batch that fails outright (for
+ * example with unparseable JSON) is bisected, so one bad comment cannot
+ * take its neighbours down with it. Extra calls are capped by a budget.
+ */
+
+import { AnalysisError } from "@/types";
+import type { BatchAnalysisResponse, SentimentAnalysis, YouTubeComment } from "@/types";
+
+export interface BatchRecoveryOptions {
+  maxExtraCalls?: number; // Calls allowed beyond the first one
+}
+
+export interface RecoveredBatch {
+  analyses: Map<string, SentimentAnalysis>; // By commentId
+  failures: Map<string, string>; // commentId -> reason, for comments never covered
+  isPartial: boolean;
+  calls: number;
+}
+
+export const DEFAULT_MAX_EXTRA_CALLS = 6;
+
+/**
+ * Analyze a batch, re-submitting missing comments until all are covered
+ * or the budget runs out
+ */
+export async function analyzeBatchWithRecovery(
+  comments: YouTubeComment[],
+  analyze: (comments: YouTubeComment[]) => Promise<BatchAnalysisResponse>,
+  options?: BatchRecoveryOptions
+): Promise<RecoveredBatch> {
+  const maxCalls = 1 + (options?.maxExtraCalls ?? DEFAULT_MAX_EXTRA_CALLS);
+  const analyses = new Map<string, SentimentAnalysis>();
+  const lastError = new Map<string, string>();
+  const pending: YouTubeComment[][] = comments.length > 0 ? [comments] : [];
+  let isPartial = false;
+  let calls = 0;
+
+  while (pending.length > 0 && calls < maxCalls) {
+    const chunk = pending.shift()!;
+    calls++;
+
+    let response: BatchAnalysisResponse;
+    try {
+      response = await analyze(chunk);
+    } catch (error) {
+      // Quota exhaustion and cancellation affect every chunk alike
+      if (error instanceof AnalysisError && (error.code === "CANCELLED" || error.code.endsWith("_QUOTA_EXCEEDED"))) {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : "Analysis failed";
+      console.warn(`[BatchRecovery] Sub-batch of ${chunk.length} failed: ${reason}`);
+      chunk.forEach((comment) => lastError.set(comment.id, reason));
+      pending.push(...bisect(chunk));
+      continue;
+    }
+
+    if (response.isPartial) isPartial = true;
+
+    const chunkIds = new Set(chunk.map((comment) => comment.id));
+    for (const analysis of response.analyses) {
+      // Ignore IDs the model invented or echoed from other chunks
+      if (chunkIds.has(analysis.commentId) && !analyses.has(analysis.commentId)) {
+        analyses.set(analysis.commentId, analysis);
+      }
+    }
+
+    const missing = chunk.filter((comment) => !analyses.has(comment.id));
+    if (missing.length === 0) continue;
+
+    console.warn(`[BatchRecovery] Model returned ${chunk.length - missing.length}/${chunk.length} results; re-submitting ${missing.length}`);
+    missing.forEach((comment) => lastError.set(comment.id, "Missing from model output"));
+
+    // No progress at all: split instead of sending the same chunk again
+    pending.push(...(missing.length === chunk.length ? bisect(missing) : [missing]));
+  }
+
+  const failures = new Map<string, string>();
+  for (const comment of comments) {
+    if (!analyses.has(comment.id)) {
+      failures.set(comment.id, lastError.get(comment.id) || "Retry budget exhausted");
+    }
+  }
+
+  return { analyses, failures, isPartial, calls };
+}
+
+/**
+ * Split a chunk in half; a single comment is retried as-is
+ */
+function bisect(chunk: YouTubeComment[]): YouTubeComment[][] {
+  if (chunk.length <= 1) return [chunk];
+
+  const middle = Math.ceil(chunk.length / 2);
+  return [chunk.slice(0, middle), chunk.slice(middle)];
+}
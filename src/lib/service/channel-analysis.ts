@@ -0,0 +1,217 @@
+/**
+ * Channel Analysis
+ *
+ * Analyzes a channel's most recent uploads one at a time with the regular
+ * pipeline, each with its own comment budget, and builds a channel report
+ * from the results. Uploads that cannot be analyzed (comments disabled, no
+ * comments) are recorded and skipped; running out of YouTube quota stops
+ * the run with whatever was analyzed so far.
+ */
+
+import { createYouTubeClient, type YouTubeClient } from "@/lib/youtube/client";
+import { AnalysisPipeline, type AnalysisPipelineOptions, type PipelineLogger } from "@/lib/service/analysis-pipeline";
+import { describeAnalysisError } from "@/lib/service/analysis-errors";
+import { getChannelLimits } from "@/lib/service/analysis-options";
+import { buildChannelReport, summarizeChannelVideo } from "@/lib/analysis/channel-report";
+import {
+  AnalysisError,
+  type AnalysisOptions,
+  type ChannelProgressEvent,
+  type ChannelRef,
+  type ChannelReport,
+  type VideoAnalysis,
+} from "@/types";
+
+/**
+ * YouTube client methods the runner uses; tests can pass a fake
+ */
+export type ChannelYouTubeClient = Pick<YouTubeClient, "getChannel" | "getPlaylistItems">;
+
+export interface ChannelAnalysisDependencies {
+  /**
+   * Default: createYouTubeClient(), created on first use
+   */
+  youtubeClient?: ChannelYouTubeClient;
+
+  /**
+   * Default: a pipeline with the default dependencies
+   */
+  pipeline?: Pick<AnalysisPipeline, "run">;
+
+  now?: () => Date;
+  logger?: PipelineLogger;
+}
+
+export interface ChannelAnalysisOptions {
+  /**
+   * Most recent uploads to analyze; capped at CHANNEL_MAX_VIDEOS
+   */
+  maxVideos?: number;
+
+  /**
+   * Comments fetched per upload; capped at CHANNEL_COMMENTS_PER_VIDEO
+   */
+  commentsPerVideo?: number;
+
+  onProgress?: (event: ChannelProgressEvent) => void;
+  signal?: AbortSignal;
+
+  /**
+   * Passed to every pipeline run (repository, caches, refresh flags)
+   */
+  pipelineOptions?: Omit<AnalysisPipelineOptions, "onProgress" | "signal" | "analysisOptions">;
+
+  /**
+   * Options of every pipeline run; `maxComments` is replaced by the per-video budget
+   */
+  analysisOptions?: AnalysisOptions;
+}
+
+// Errors after which the remaining uploads would fail the same way
+const FATAL_ERROR_CODES = new Set(["CANCELLED", "QUOTA_BUDGET_EXCEEDED", "quotaExceeded"]);
+
+export class ChannelAnalysisRunner {
+  private youtubeClient: ChannelYouTubeClient | null;
+  private readonly pipeline: Pick<AnalysisPipeline, "run">;
+  private readonly now: () => Date;
+  private readonly logger: PipelineLogger;
+
+  constructor(dependencies: ChannelAnalysisDependencies = {}) {
+    this.youtubeClient = dependencies.youtubeClient || null;
+    this.pipeline = dependencies.pipeline || new AnalysisPipeline();
+    this.now = dependencies.now || (() => new Date());
+    this.logger = dependencies.logger || console;
+  }
+
+  /**
+   * Analyze the channel's most recent uploads and report on them
+   */
+  async run(ref: ChannelRef, options?: ChannelAnalysisOptions): Promise<ChannelReport> {
+    const emit = (event: ChannelProgressEvent) => options?.onProgress?.(event);
+    const { maxVideos, commentsPerVideo } = resolveChannelLimits(options);
+
+    const youtubeClient = this.getYouTubeClient();
+    const channel = await youtubeClient.getChannel(ref);
+    const uploads = await youtubeClient.getPlaylistItems(channel.uploadsPlaylistId, { maxItems: maxVideos });
+    this.logger.log(`[Channel] ${channel.title}: analyzing ${uploads.length} uploads, ${commentsPerVideo} comments each`);
+    emit({ type: "channel", channel, videos: uploads });
+
+    if (uploads.length === 0) {
+      throw new AnalysisError("This channel has no public uploads", "NO_VIDEOS");
+    }
+
+    const analyses: VideoAnalysis[] = [];
+    const failedVideos: ChannelReport["failedVideos"] = [];
+
+    // One upload at a time, so a channel run never multiplies the load on the quota
+    for (const [index, upload] of uploads.entries()) {
+      emit({ type: "videoStart", videoId: upload.videoId, index, total: uploads.length });
+
+      try {
+        const analysis = await this.pipeline.run(upload.videoId, {
+          ...options?.pipelineOptions,
+          signal: options?.signal,
+          analysisOptions: { ...options?.analysisOptions, maxComments: commentsPerVideo },
+          onProgress: (event) => emit({ type: "videoProgress", videoId: upload.videoId, phase: event.type }),
+        });
+        analyses.push(analysis);
+        emit({ type: "videoComplete", videoId: upload.videoId, summary: summarizeChannelVideo(analysis) });
+      } catch (error) {
+        const code = error && typeof error === "object" && "code" in error ? String(error.code) : undefined;
+        if (code === "CANCELLED") throw error;
+
+        const { message } = describeAnalysisError(error);
+        this.logger.warn(`[Channel] Skipping ${upload.videoId}: ${message}`);
+        failedVideos.push({ videoId: upload.videoId, title: upload.title, error: message });
+        emit({ type: "videoError", videoId: upload.videoId, error: message });
+
+        if (code && FATAL_ERROR_CODES.has(code)) {
+          this.logger.warn(`[Channel] Stopping after ${analyses.length} of ${uploads.length} uploads`);
+          break;
+        }
+      }
+    }
+
+    if (analyses.length === 0) {
+      throw new AnalysisError("None of the channel's recent uploads could be analyzed", "NO_VIDEOS", failedVideos);
+    }
+
+    const report = buildChannelReport(channel, analyses, { commentsPerVideo, failedVideos, now: this.now() });
+    emit({ type: "complete", report });
+    return report;
+  }
+
+  private getYouTubeClient(): ChannelYouTubeClient {
+    if (!this.youtubeClient) {
+      this.youtubeClient = createYouTubeClient();
+    }
+    return this.youtubeClient;
+  }
+}
+
+/**
+ * Requested limits, capped by the server's channel limits and MAX_COMMENTS
+ */
+function resolveChannelLimits(options?: ChannelAnalysisOptions): { maxVideos: number; commentsPerVideo: number } {
+  const limits = getChannelLimits();
+  return {
+    maxVideos: Math.min(options?.maxVideos ?? limits.maxVideos, limits.maxVideos),
+    commentsPerVideo: Math.min(options?.commentsPerVideo ?? limits.commentsPerVideo, limits.commentsPerVideo),
+  };
+}
+
+/**
+ * Produce a mock channel report (USE_MOCK_ENGINE) with the same progress events
+ */
+export async function runMockChannelAnalysis(
+  videoCount: number,
+  commentsPerVideo: number,
+  options?: Pick<ChannelAnalysisOptions, "onProgress">
+): Promise<ChannelReport> {
+  const emit = (event: ChannelProgressEvent) => options?.onProgress?.(event);
+
+  const { generateMockVideo, generateMockAnalyzedComments } = await import("@/lib/mock-data/generators");
+  const { buildVideoAnalysis } = await import("@/lib/analysis/aggregate");
+
+  // A shared pool of authors, so the report has recurring commenters
+  const authors = Array.from({ length: Math.max(5, Math.ceil(commentsPerVideo / 2)) }, (_, i) => `Viewer ${i + 1}`);
+  const day = 24 * 60 * 60 * 1000;
+  const latest = new Date("2024-06-01T10:00:00Z").getTime();
+
+  const analyses = Array.from({ length: videoCount }, (_, i) => {
+    const video = generateMockVideo({ publishedAt: new Date(latest - i * 7 * day).toISOString() });
+    const comments = generateMockAnalyzedComments(video.id, commentsPerVideo).map((comment, j) => {
+      const author = authors[(i * 3 + j) % authors.length];
+      return { ...comment, author, authorChannelId: `mock-${author}` };
+    });
+    return buildVideoAnalysis(video, comments);
+  });
+
+  const channel = {
+    id: "UCmockchannel0000000000",
+    title: "Mock Channel",
+    handle: "@mock",
+    thumbnailUrl: "",
+    videoCount,
+    uploadsPlaylistId: "UUmockchannel0000000000",
+  };
+  emit({
+    type: "channel",
+    channel,
+    videos: analyses.map((analysis, position) => ({
+      videoId: analysis.video.id,
+      title: analysis.video.title,
+      publishedAt: analysis.video.publishedAt,
+      position,
+    })),
+  });
+
+  analyses.forEach((analysis, index) => {
+    emit({ type: "videoStart", videoId: analysis.video.id, index, total: analyses.length });
+    emit({ type: "videoComplete", videoId: analysis.video.id, summary: summarizeChannelVideo(analysis) });
+  });
+
+  const report = buildChannelReport(channel, analyses, { commentsPerVideo });
+  emit({ type: "complete", report });
+  return report;
+}
@@ -0,0 +1,186 @@
+/**
+ * Pre-flight cost estimate for an analysis run
+ *
+ * Applies the pipeline's tiered-sampling rules to the video's comment count
+ * and tokenizes the real batch prompts (filled with placeholder comments)
+ * to project tokens, cost and duration. Token counts use the GPT o200k
+ * encoding, so they are approximate for non-OpenAI models.
+ */
+
+import { countTokens } from "gpt-tokenizer";
+import {
+  AXIS_SYSTEM_PROMPT,
+  SYSTEM_PROMPT,
+  createAxisBatchPrompt,
+  createBatchPrompt,
+  createLiteAxisBatchPrompt,
+  createLiteBatchPrompt,
+} from "@/lib/llm/prompts";
+import { estimateCost } from "@/lib/usage/pricing";
+import { MAX_CONCURRENT_BATCHES } from "./analysis-pipeline";
+import type { AxisProfile, CostEstimate, YouTubeComment, YouTubeVideo } from "@/types";
+
+export interface CostEstimateInput {
+  video: YouTubeVideo;
+  maxComments: number;
+  richTierThreshold: number;
+  batchSize: number;
+  axisMode: boolean;
+  model: string; // As produced by formatModelId
+}
+
+// Assumed average comment length; real comments vary widely
+const AVG_COMMENT_TEXT =
+  "I think the main point of the video makes sense, but the part about the second example felt a bit one-sided to me.";
+
+// Typical completion size per comment for each prompt variant
+const COMPLETION_TOKENS_PER_COMMENT = {
+  axisRich: 150,
+  axisLite: 20,
+  rich: 60,
+  lite: 15,
+};
+
+// Context summary: prompt overhead plus up to ~2000 transcript chars
+const SUMMARY_PROMPT_OVERHEAD_TOKENS = 600;
+const SUMMARY_COMPLETION_TOKENS = 100;
+
+// Axis profile: context with RAG excerpts, and a sizeable JSON profile
+const AXIS_PROFILE_PROMPT_TOKENS = 3000;
+const AXIS_PROFILE_COMPLETION_TOKENS = 700;
+
+// Latency model: fixed overhead plus generation speed
+const BASE_LATENCY_MS = 1500;
+const OUTPUT_TOKENS_PER_SECOND = 80;
+
+/**
+ * Representative profile so axis prompts have realistic size
+ */
+const PLACEHOLDER_PROFILE: AxisProfile = {
+  videoId: "estimate",
+  mainAxis: "Is the approach proposed in the video effective?",
+  axisStatement: "The creator argues that practice matters more than theory.",
+  axisType: "other",
+  creatorPosition: "Practical experience should be prioritized over studying theory.",
+  targetOfCriticism: "People who only study and never act",
+  supportedValues: "Learning by doing, initiative",
+  protagonists: ["the creator", "practitioners"],
+  antagonists: ["armchair critics"],
+  coreValues: ["practice", "initiative", "experience"],
+  negativeValues: ["procrastination", "excessive theory"],
+  valuePriority: ["practice", "experience", "theory"],
+  stanceRules: [
+    "Agreeing that practice matters is Support",
+    "Arguing theory must come first is Oppose",
+    "Jokes without a position are Neutral",
+  ],
+  lexiconHints: ["practice", "theory", "action"],
+  caveats: ["Sarcastic praise usually signals Oppose"],
+  generatedAt: new Date(0).toISOString(),
+};
+
+function placeholderComments(count: number): YouTubeComment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `Ugx${String(i).padStart(20, "0")}`,
+    videoId: "estimate",
+    author: `Viewer ${i}`,
+    text: AVG_COMMENT_TEXT,
+    likeCount: 0,
+    publishedAt: new Date(0).toISOString(),
+  }));
+}
+
+/**
+ * Split `count` comments into batch sizes
+ */
+function batchSizes(count: number, batchSize: number): number[] {
+  const sizes: number[] = [];
+  for (let remaining = count; remaining > 0; remaining -= batchSize) {
+    sizes.push(Math.min(batchSize, remaining));
+  }
+  return sizes;
+}
+
+export function estimateAnalysisCost(input: CostEstimateInput): CostEstimate {
+  const { video, axisMode } = input;
+
+  const sampledComments = Math.min(video.commentCount, input.maxComments);
+  const richComments = Math.min(sampledComments, input.richTierThreshold);
+  const liteComments = sampledComments - richComments;
+
+  const videoContext = {
+    title: video.title,
+    channelName: video.channelName,
+    description: video.description,
+    summary: "A two to three sentence summary of the video's topic and main argument.",
+  };
+
+  const systemTokens = countTokens(axisMode ? AXIS_SYSTEM_PROMPT : SYSTEM_PROMPT);
+  const promptTokenCache = new Map<string, number>();
+
+  const batchPromptTokens = (size: number, isLite: boolean): number => {
+    const key = `${size}:${isLite}`;
+    if (!promptTokenCache.has(key)) {
+      const comments = placeholderComments(size);
+      const prompt = axisMode
+        ? isLite
+          ? createLiteAxisBatchPrompt(comments, PLACEHOLDER_PROFILE, videoContext)
+          : createAxisBatchPrompt(comments, PLACEHOLDER_PROFILE, videoContext)
+        : isLite
+          ? createLiteBatchPrompt(comments, videoContext)
+          : createBatchPrompt(comments, videoContext);
+      promptTokenCache.set(key, systemTokens + countTokens(prompt));
+    }
+    return promptTokenCache.get(key)!;
+  };
+
+  const batches = [
+    ...batchSizes(richComments, input.batchSize).map((size) => ({ size, isLite: false })),
+    ...batchSizes(liteComments, input.batchSize).map((size) => ({ size, isLite: true })),
+  ].map(({ size, isLite }) => {
+    const perComment = axisMode
+      ? isLite ? COMPLETION_TOKENS_PER_COMMENT.axisLite : COMPLETION_TOKENS_PER_COMMENT.axisRich
+      : isLite ? COMPLETION_TOKENS_PER_COMMENT.lite : COMPLETION_TOKENS_PER_COMMENT.rich;
+    return { promptTokens: batchPromptTokens(size, isLite), completionTokens: size * perComment };
+  });
+
+  // Fixed calls before the batches
+  const setupCalls = [
+    {
+      promptTokens: SUMMARY_PROMPT_OVERHEAD_TOKENS + countTokens(`${video.title}\n${video.description?.slice(0, 500) || ""}`),
+      completionTokens: SUMMARY_COMPLETION_TOKENS,
+    },
+    ...(axisMode ? [{ promptTokens: AXIS_PROFILE_PROMPT_TOKENS, completionTokens: AXIS_PROFILE_COMPLETION_TOKENS }] : []),
+  ];
+
+  const calls = [...setupCalls, ...batches];
+  const promptTokens = calls.reduce((sum, call) => sum + call.promptTokens, 0);
+  const completionTokens = calls.reduce((sum, call) => sum + call.completionTokens, 0);
+
+  const callDuration = (call: { completionTokens: number }) =>
+    BASE_LATENCY_MS + (call.completionTokens / OUTPUT_TOKENS_PER_SECOND) * 1000;
+
+  // Setup calls run one after another; batches in concurrent groups
+  let estimatedDurationMs = setupCalls.reduce((sum, call) => sum + callDuration(call), 0);
+  for (let i = 0; i < batches.length; i += MAX_CONCURRENT_BATCHES) {
+    estimatedDurationMs += Math.max(...batches.slice(i, i + MAX_CONCURRENT_BATCHES).map(callDuration));
+  }
+
+  return {
+    videoId: video.id,
+    title: video.title,
+    commentCount: video.commentCount,
+    sampledComments,
+    richComments,
+    liteComments,
+    batches: batches.length,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimatedCostUsd: estimateCost(input.model, promptTokens, completionTokens),
+    estimatedDurationMs: Math.round(estimatedDurationMs),
+    model: input.model,
+    axisMode,
+    stored: false,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { formatSSE, readSSE } from "../sse";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe("SSE helpers", () => {
+  it("should format events with type and JSON data", () => {
+    expect(formatSSE({ type: "video" })).toBe('event: video\ndata: {"type":"video"}\n\n');
+  });
+
+  it("should read events split across chunks", async () => {
+    const message = formatSSE({ type: "batch", completedBatches: 1 }) + formatSSE({ type: "complete" });
+    const events: Array<Record<string, unknown>> = [];
+
+    await readSSE<Record<string, unknown>>(
+      streamOf([message.slice(0, 10), message.slice(10, 40), message.slice(40)]),
+      (event) => events.push(event)
+    );
+
+    expect(events).toEqual([{ type: "batch", completedBatches: 1 }, { type: "complete" }]);
+  });
+
+  it("should propagate errors thrown by the handler", async () => {
+    const stream = streamOf([formatSSE({ type: "error" })]);
+
+    await expect(
+      readSSE(stream, () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+  });
+});
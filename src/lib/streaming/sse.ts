@@ -0,0 +1,62 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * formatSSE is used by route handlers to encode events, readSSE by the
+ * browser to consume a POST response body (EventSource only supports GET).
+ */
+
+/**
+ * Encode a typed event as an SSE message
+ */
+export function formatSSE<T extends { type: string }>(event: T): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read an SSE response body and invoke the handler for each JSON payload
+ *
+ * Errors thrown by the handler stop reading and are propagated to the caller.
+ */
+export async function readSSE<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (message: string) => {
+    const data = message
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+
+    if (data) {
+      onEvent(JSON.parse(data) as T);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let separatorIndex = buffer.indexOf("\n\n");
+      while (separatorIndex !== -1) {
+        dispatch(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        separatorIndex = buffer.indexOf("\n\n");
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      dispatch(buffer);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { UsageLedger } from "../ledger";
+import { estimateCost, getModelPrice } from "../pricing";
+
+describe("pricing", () => {
+  it("looks up prices by the model part of a provider-qualified ID", () => {
+    expect(getModelPrice("openai.responses:gpt-4o-mini")).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice("gpt-4o-mini")).toEqual({ input: 0.15, output: 0.6 });
+  });
+
+  it("treats local models as free", () => {
+    expect(estimateCost("openai-compatible.chat:llama3.1:8b", 1000, 1000)).toBe(0);
+  });
+
+  it("returns null for unknown models", () => {
+    expect(estimateCost("acme:unknown-model", 1000, 1000)).toBeNull();
+  });
+});
+
+describe("UsageLedger", () => {
+  it("sums tokens and cost per phase and overall", () => {
+    const ledger = new UsageLedger();
+    ledger.record("richBatches", { model: "openai.responses:gpt-4o-mini", promptTokens: 1_000_000, completionTokens: 0 });
+    ledger.record("richBatches", { model: "openai.responses:gpt-4o-mini", promptTokens: 0, completionTokens: 1_000_000 });
+    ledger.record("summary", { model: "openai.responses:gpt-4o-mini", promptTokens: 100, completionTokens: 50 });
+
+    const usage = ledger.summarize();
+
+    expect(usage.phases.richBatches).toEqual({
+      calls: 2,
+      promptTokens: 1_000_000,
+      completionTokens: 1_000_000,
+      totalTokens: 2_000_000,
+      estimatedCostUsd: 0.75,
+    });
+    expect(usage.phases.liteBatches).toBeUndefined();
+    expect(usage.total.calls).toBe(3);
+    expect(usage.total.totalTokens).toBe(2_000_150);
+    expect(usage.models).toEqual(["openai.responses:gpt-4o-mini"]);
+  });
+
+  it("lists models without a price", () => {
+    const ledger = new UsageLedger();
+    ledger.record("liteBatches", { model: "acme:mystery", promptTokens: 10, completionTokens: 10 });
+
+    const usage = ledger.summarize();
+
+    expect(usage.unpricedModels).toEqual(["acme:mystery"]);
+    expect(usage.total.estimatedCostUsd).toBe(0);
+  });
+});
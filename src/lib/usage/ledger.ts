@@ -0,0 +1,62 @@
+/**
+ * Token usage ledger for a single analysis run
+ *
+ * Engines record every LLM and embedding call against a phase; the
+ * pipeline attaches the summary to the resulting VideoAnalysis.
+ */
+
+import type { AnalysisUsage, PhaseUsage, UsagePhase } from "@/types";
+import { estimateCost } from "./pricing";
+
+export interface UsageRecord {
+  model: string; // As produced by formatModelId
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Sink for usage records; implemented by UsageLedger
+ */
+export interface UsageRecorder {
+  record(phase: UsagePhase, usage: UsageRecord): void;
+}
+
+function emptyPhaseUsage(): PhaseUsage {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0 };
+}
+
+function addTo(target: PhaseUsage, usage: UsageRecord, cost: number): void {
+  target.calls += 1;
+  target.promptTokens += usage.promptTokens;
+  target.completionTokens += usage.completionTokens;
+  target.totalTokens += usage.promptTokens + usage.completionTokens;
+  target.estimatedCostUsd += cost;
+}
+
+export class UsageLedger implements UsageRecorder {
+  private phases: Partial<Record<UsagePhase, PhaseUsage>> = {};
+  private total = emptyPhaseUsage();
+  private models = new Set<string>();
+  private unpricedModels = new Set<string>();
+
+  record(phase: UsagePhase, usage: UsageRecord): void {
+    const cost = estimateCost(usage.model, usage.promptTokens, usage.completionTokens);
+    if (cost === null) this.unpricedModels.add(usage.model);
+    this.models.add(usage.model);
+
+    const phaseUsage = (this.phases[phase] ??= emptyPhaseUsage());
+    addTo(phaseUsage, usage, cost ?? 0);
+    addTo(this.total, usage, cost ?? 0);
+  }
+
+  summarize(): AnalysisUsage {
+    return {
+      phases: Object.fromEntries(
+        Object.entries(this.phases).map(([phase, usage]) => [phase, { ...usage }])
+      ),
+      total: { ...this.total },
+      models: [...this.models],
+      unpricedModels: [...this.unpricedModels],
+    };
+  }
+}
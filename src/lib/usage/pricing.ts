@@ -0,0 +1,54 @@
+/**
+ * Per-model token prices used for cost estimates
+ *
+ * Prices are USD per 1M tokens and only approximate list prices; update
+ * them when providers change pricing.
+ */
+
+export interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // OpenAI
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  // Google
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  // Groq
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+};
+
+/**
+ * Providers that run locally and cost nothing per token
+ */
+const FREE_PROVIDERS = ["openai-compatible", "mock"];
+
+/**
+ * Look up the price for a model ID as produced by formatModelId
+ * ("provider:modelId" or a bare model ID). Returns null when unknown.
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const separator = model.indexOf(":");
+  const provider = separator >= 0 ? model.slice(0, separator) : "";
+  const modelId = separator >= 0 ? model.slice(separator + 1) : model;
+
+  if (FREE_PROVIDERS.some((free) => provider === free || provider.startsWith(`${free}.`) || model === free)) {
+    return { input: 0, output: 0 };
+  }
+
+  return MODEL_PRICES[modelId] ?? null;
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no known price
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,374 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { YouTubeClient } from "../client";
+import { QuotaTracker } from "../quota";
+import { TokenBucket } from "@/lib/retry/token-bucket";
+
+function commentResource(id: string, publishedAt = "2024-01-01T00:00:00Z") {
+  return {
+    id,
+    snippet: {
+      authorDisplayName: `author-${id}`,
+      authorChannelId: { value: `channel-${id}` },
+      textDisplay: `text ${id}`,
+      likeCount: 0,
+      publishedAt,
+      updatedAt: publishedAt,
+    },
+  };
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Stub fetch with a handler per endpoint and record requested URLs
+ */
+function stubFetch(handlers: Record<string, (url: URL) => unknown>) {
+  const requests: URL[] = [];
+  vi.stubGlobal("fetch", vi.fn(async (input: string) => {
+    const url = new URL(input);
+    requests.push(url);
+    const endpoint = url.pathname.split("/").pop()!;
+    return jsonResponse(handlers[endpoint](url));
+  }));
+  return requests;
+}
+
+describe("YouTubeClient.getComments", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pages through truncated reply threads via comments.list", async () => {
+    const replies = Array.from({ length: 7 }, (_, i) => commentResource(`reply-${i}`));
+
+    const requests = stubFetch({
+      commentThreads: () => ({
+        items: [
+          {
+            snippet: { topLevelComment: commentResource("top"), totalReplyCount: 7 },
+            replies: { comments: replies.slice(0, 5) },
+          },
+        ],
+      }),
+      comments: (url) => url.searchParams.get("pageToken")
+        ? { items: replies.slice(4) }
+        : { items: replies.slice(0, 4), nextPageToken: "next" },
+    });
+
+    const client = new YouTubeClient({ apiKey: "key" });
+    const comments = await client.getComments("video", { maxComments: 100 });
+
+    expect(comments.map((c) => c.id)).toEqual(["top", ...replies.map((r) => r.id)]);
+    expect(comments[0].replyCount).toBe(7);
+    expect(comments.slice(1).every((c) => c.parentId === "top")).toBe(true);
+    expect(requests.filter((u) => u.pathname.endsWith("/comments"))).toHaveLength(2);
+    expect(requests[1].searchParams.get("parentId")).toBe("top");
+  });
+
+  it("uses inline replies when the thread is complete", async () => {
+    const requests = stubFetch({
+      commentThreads: () => ({
+        items: [
+          {
+            snippet: { topLevelComment: commentResource("top"), totalReplyCount: 2 },
+            replies: { comments: [commentResource("a"), commentResource("b")] },
+          },
+        ],
+      }),
+    });
+
+    const client = new YouTubeClient({ apiKey: "key" });
+    const comments = await client.getComments("video");
+
+    expect(comments).toHaveLength(3);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("caps replies per thread", async () => {
+    stubFetch({
+      commentThreads: () => ({
+        items: [
+          {
+            snippet: { topLevelComment: commentResource("top"), totalReplyCount: 50 },
+            replies: { comments: [commentResource("inline")] },
+          },
+        ],
+      }),
+      comments: (url) => ({
+        items: Array.from(
+          { length: Number(url.searchParams.get("maxResults")) },
+          (_, i) => commentResource(`reply-${i}`)
+        ),
+      }),
+    });
+
+    const client = new YouTubeClient({ apiKey: "key", maxRepliesPerThread: 3 });
+    const comments = await client.getComments("video", { maxComments: 100 });
+
+    expect(comments.filter((c) => c.parentId)).toHaveLength(3);
+  });
+});
+
+describe("YouTubeClient channels and playlists", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("extracts channel references from URLs, handles and IDs", () => {
+    const id = "UC" + "a".repeat(22);
+    expect(YouTubeClient.extractChannelRef(`https://www.youtube.com/channel/${id}`)).toEqual({ type: "id", value: id });
+    expect(YouTubeClient.extractChannelRef("https://www.youtube.com/@creator/videos")).toEqual({ type: "handle", value: "@creator" });
+    expect(YouTubeClient.extractChannelRef("@creator")).toEqual({ type: "handle", value: "@creator" });
+    expect(YouTubeClient.extractChannelRef(id)).toEqual({ type: "id", value: id });
+    expect(YouTubeClient.extractChannelRef("https://www.youtube.com/watch?v=dQw4w9WgXcQ")).toBeNull();
+    expect(YouTubeClient.extractChannelRef("https://example.com/@creator")).toBeNull();
+  });
+
+  it("looks up a channel by handle", async () => {
+    const requests = stubFetch({
+      channels: () => ({
+        items: [
+          {
+            id: "UC123",
+            snippet: { title: "Creator", customUrl: "@creator", description: "", thumbnails: { default: { url: "thumb" } } },
+            contentDetails: { relatedPlaylists: { uploads: "UU123" } },
+            statistics: { subscriberCount: "1000", hiddenSubscriberCount: false, videoCount: "42" },
+          },
+        ],
+      }),
+    });
+
+    const client = new YouTubeClient({ apiKey: "key" });
+    const channel = await client.getChannel({ type: "handle", value: "@creator" });
+
+    expect(requests[0].searchParams.get("forHandle")).toBe("@creator");
+    expect(channel).toMatchObject({ id: "UC123", uploadsPlaylistId: "UU123", subscriberCount: 1000, videoCount: 42 });
+  });
+
+  it("reports a missing channel", async () => {
+    stubFetch({ channels: () => ({ items: [] }) });
+
+    const client = new YouTubeClient({ apiKey: "key" });
+
+    await expect(client.getChannel({ type: "id", value: "UCmissing" })).rejects.toMatchObject({ code: "CHANNEL_NOT_FOUND" });
+  });
+
+  it("extracts playlist IDs from list= URLs", () => {
+    expect(YouTubeClient.extractPlaylistId("https://www.youtube.com/playlist?list=PL123abc")).toBe("PL123abc");
+    expect(YouTubeClient.extractPlaylistId("https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123abc&index=2")).toBe("PL123abc");
+    expect(YouTubeClient.extractPlaylistId("https://youtu.be/dQw4w9WgXcQ?list=PL123abc")).toBe("PL123abc");
+    expect(YouTubeClient.extractPlaylistId("https://www.youtube.com/watch?v=dQw4w9WgXcQ")).toBeNull();
+    expect(YouTubeClient.extractPlaylistId("https://example.com/playlist?list=PL123abc")).toBeNull();
+  });
+
+  it("reports a missing playlist", async () => {
+    stubFetch({ playlists: () => ({ items: [] }) });
+
+    const client = new YouTubeClient({ apiKey: "key" });
+
+    await expect(client.getPlaylist("PLmissing")).rejects.toMatchObject({ code: "PLAYLIST_NOT_FOUND" });
+  });
+
+  it("pages through playlist items up to the limit", async () => {
+    const item = (i: number) => ({
+      snippet: { title: `video ${i}`, publishedAt: "2024-01-02T00:00:00Z", position: i },
+      contentDetails: { videoId: `v${i}`, videoPublishedAt: "2024-01-01T00:00:00Z" },
+    });
+    const requests = stubFetch({
+      playlistItems: (url) => url.searchParams.get("pageToken")
+        ? { items: [item(2), item(3)] }
+        : { items: [item(0), item(1)], nextPageToken: "next" },
+    });
+
+    const client = new YouTubeClient({ apiKey: "key" });
+    const items = await client.getPlaylistItems("UU123", { maxItems: 3 });
+
+    expect(items.map((i) => i.videoId)).toEqual(["v0", "v1", "v2"]);
+    expect(items[0].publishedAt).toBe("2024-01-01T00:00:00Z");
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe("YouTubeClient quota budget", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("charges each call against the budget", async () => {
+    stubFetch({
+      commentThreads: () => ({
+        items: [{ snippet: { topLevelComment: commentResource("top"), totalReplyCount: 0 } }],
+      }),
+    });
+
+    const quota = new QuotaTracker(100);
+    const client = new YouTubeClient({ apiKey: "key", quota });
+    await client.getComments("video");
+
+    expect(quota.getUsage().byCall["commentThreads.list"]).toBe(1);
+  });
+
+  it("refuses requests once the budget is exhausted", async () => {
+    const requests = stubFetch({});
+
+    const client = new YouTubeClient({ apiKey: "key", quota: new QuotaTracker(0) });
+
+    await expect(client.getVideo("video")).rejects.toMatchObject({ code: "QUOTA_BUDGET_EXCEEDED" });
+    expect(requests).toHaveLength(0);
+  });
+
+  it("stops paging early when the budget runs low", async () => {
+    let page = 0;
+    stubFetch({
+      commentThreads: () => ({
+        items: [{ snippet: { topLevelComment: commentResource(`top-${page++}`), totalReplyCount: 0 } }],
+        nextPageToken: "more",
+      }),
+    });
+
+    const client = new YouTubeClient({ apiKey: "key", quota: new QuotaTracker(2) });
+    const comments = await client.getComments("video", { maxComments: 100 });
+
+    expect(comments.map((c) => c.id)).toEqual(["top-0", "top-1"]);
+  });
+});
+
+describe("YouTubeClient retries", () => {
+  const videoBody = {
+    items: [
+      {
+        id: "video",
+        snippet: {
+          title: "Title",
+          channelTitle: "Channel",
+          channelId: "channel",
+          publishedAt: "2024-01-01T00:00:00Z",
+          description: "",
+          thumbnails: { high: { url: "https://example.com/thumb.jpg" } },
+        },
+        statistics: { viewCount: "1", likeCount: "1", commentCount: "1" },
+      },
+    ],
+  };
+
+  function errorResponse(status: number, reason: string, headers?: Record<string, string>): Response {
+    return new Response(JSON.stringify({ error: { message: reason, errors: [{ reason }] } }), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries transient failures with backoff", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(errorResponse(503, "backendError"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse(videoBody));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const delays: number[] = [];
+    const client = new YouTubeClient({
+      apiKey: "key",
+      retry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 },
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    const video = await client.getVideo("video");
+
+    expect(video.id).toBe("video");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(delays).toHaveLength(2);
+    expect(delays[0]).toBeLessThanOrEqual(100);
+    expect(delays[1]).toBeLessThanOrEqual(200);
+  });
+
+  it("honours Retry-After on rate limiting", async () => {
+    vi.stubGlobal("fetch", vi.fn()
+      .mockResolvedValueOnce(errorResponse(403, "rateLimitExceeded", { "Retry-After": "3" }))
+      .mockResolvedValueOnce(jsonResponse(videoBody)));
+
+    const delays: number[] = [];
+    const client = new YouTubeClient({
+      apiKey: "key",
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    await client.getVideo("video");
+
+    expect(delays).toEqual([3000]);
+  });
+
+  it("caps Retry-After at the longest backoff delay", async () => {
+    vi.stubGlobal("fetch", vi.fn()
+      .mockResolvedValueOnce(errorResponse(429, "rateLimitExceeded", { "Retry-After": "3600" }))
+      .mockResolvedValueOnce(jsonResponse(videoBody)));
+
+    const delays: number[] = [];
+    const client = new YouTubeClient({
+      apiKey: "key",
+      retry: { maxDelayMs: 1000 },
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    await client.getVideo("video");
+
+    expect(delays).toEqual([1000]);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const fetchMock = vi.fn(async () => errorResponse(500, "backendError"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const quota = new QuotaTracker(100);
+    const client = new YouTubeClient({
+      apiKey: "key",
+      quota,
+      retry: { maxAttempts: 2 },
+      sleep: async () => undefined,
+    });
+
+    await expect(client.getVideo("video")).rejects.toMatchObject({ statusCode: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(quota.getUsage().used).toBe(2);
+  });
+
+  it("does not retry permanent errors", async () => {
+    const fetchMock = vi.fn(async () => errorResponse(403, "quotaExceeded"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = new YouTubeClient({ apiKey: "key", sleep: async () => undefined });
+
+    await expect(client.getVideo("video")).rejects.toMatchObject({ code: "quotaExceeded" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits on a shared rate limiter", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => jsonResponse(videoBody)));
+
+    let now = 0;
+    const waits: number[] = [];
+    const limiter = new TokenBucket(1, 2, () => now, async (ms) => {
+      waits.push(ms);
+      now += ms;
+    });
+    const clients = [new YouTubeClient({ apiKey: "key", rateLimiter: limiter }), new YouTubeClient({ apiKey: "key", rateLimiter: limiter })];
+
+    await Promise.all([...clients, ...clients].map((client) => client.getVideo("video")));
+
+    expect(waits).toEqual([500, 500, 500]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { QuotaTracker, getQuotaTracker } from "../quota";
+
+describe("QuotaTracker", () => {
+  it("tracks units per call type", () => {
+    const tracker = new QuotaTracker(10);
+
+    tracker.tryConsume("videos.list");
+    tracker.tryConsume("commentThreads.list");
+    tracker.tryConsume("commentThreads.list");
+
+    const usage = tracker.getUsage();
+    expect(usage.used).toBe(3);
+    expect(usage.remaining).toBe(7);
+    expect(usage.byCall).toEqual({
+      "videos.list": 1,
+      "commentThreads.list": 2,
+      "comments.list": 0,
+      "channels.list": 0,
+      "playlistItems.list": 0,
+      "playlists.list": 0,
+    });
+  });
+
+  it("refuses calls beyond the budget", () => {
+    const tracker = new QuotaTracker(1);
+
+    expect(tracker.tryConsume("comments.list")).toBe(true);
+    expect(tracker.tryConsume("comments.list")).toBe(false);
+    expect(tracker.getUsage().used).toBe(1);
+  });
+
+  it("resets at midnight Pacific Time", () => {
+    let now = new Date("2024-03-01T07:30:00Z"); // 23:30 PST
+    const tracker = new QuotaTracker(5, () => now);
+
+    tracker.tryConsume("videos.list");
+    expect(tracker.getUsage().day).toBe("2024-02-29");
+
+    now = new Date("2024-03-01T08:30:00Z"); // 00:30 PST
+    expect(tracker.getUsage()).toMatchObject({ day: "2024-03-01", used: 0, remaining: 5 });
+  });
+});
+
+describe("getQuotaTracker", () => {
+  const globalForQuota = globalThis as unknown as { youtubeQuota?: QuotaTracker };
+
+  afterEach(() => {
+    delete globalForQuota.youtubeQuota;
+    vi.unstubAllEnvs();
+  });
+
+  it("falls back to the default budget for an invalid YOUTUBE_QUOTA_BUDGET", () => {
+    vi.stubEnv("YOUTUBE_QUOTA_BUDGET", "unlimited");
+
+    expect(getQuotaTracker().getUsage()).toMatchObject({ budget: 10000, remaining: 10000 });
+  });
+});
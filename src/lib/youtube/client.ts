@@ -5,7 +5,24 @@
  */
 
 import { YoutubeTranscript } from "youtube-transcript";
-import type { YouTubeVideo, YouTubeComment, YouTubeAPIError } from "@/types";
+import type {
+  ChannelRef,
+  YouTubeAPIError,
+  YouTubeChannel,
+  YouTubeComment,
+  YouTubePlaylist,
+  YouTubePlaylistItem,
+  YouTubeVideo,
+} from "@/types";
+import { QUOTA_COSTS, getQuotaTracker, type QuotaCall, type QuotaTracker } from "./quota";
+import {
+  DEFAULT_RETRY_POLICY,
+  computeBackoffDelay,
+  parseRetryAfter,
+  sleep,
+  type RetryPolicy,
+} from "@/lib/retry/backoff";
+import { TokenBucket } from "@/lib/retry/token-bucket";
 
 const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
 
@@ -13,8 +30,21 @@ interface YouTubeAPIConfig {
   apiKey: string;
   maxResults?: number;
   timeout?: number;
+  maxRepliesPerThread?: number; // Cap on replies fetched per comment thread
+  quota?: QuotaTracker; // Daily quota budget; calls beyond it are refused
+  retry?: Partial<RetryPolicy>;
+  rateLimiter?: TokenBucket; // Shared across clients to cap request rate
+  sleep?: (ms: number) => Promise<void>;
 }
 
+/**
+ * Error reasons YouTube returns for short-term throttling (unlike the
+ * daily `quotaExceeded`, these clear up on retry)
+ */
+const RETRYABLE_REASONS = ["rateLimitExceeded", "userRateLimitExceeded", "backendError"];
+
+type ClientError = YouTubeAPIError & { retryAfterMs?: number };
+
 interface VideoResponse {
   items: Array<{
     id: string;
@@ -36,34 +66,110 @@ interface VideoResponse {
   }>;
 }
 
+interface ChannelResponse {
+  items?: Array<{
+    id: string;
+    snippet: {
+      title: string;
+      customUrl?: string; // The handle, e.g. "@creator"
+      description: string;
+      thumbnails: {
+        high?: { url: string };
+        default?: { url: string };
+      };
+    };
+    contentDetails: {
+      relatedPlaylists: { uploads: string };
+    };
+    statistics: {
+      subscriberCount?: string;
+      hiddenSubscriberCount: boolean;
+      videoCount: string;
+    };
+  }>;
+}
+
+interface PlaylistResponse {
+  items?: Array<{
+    id: string;
+    snippet: {
+      title: string;
+      channelTitle: string;
+      thumbnails: {
+        high?: { url: string };
+        default?: { url: string };
+      };
+    };
+    contentDetails: {
+      itemCount: number;
+    };
+  }>;
+}
+
+interface PlaylistItemResponse {
+  items: Array<{
+    snippet: {
+      title: string;
+      publishedAt: string; // When the item was added to the playlist
+      position: number;
+    };
+    contentDetails: {
+      videoId: string;
+      videoPublishedAt?: string; // Missing for private or deleted videos
+    };
+  }>;
+  nextPageToken?: string;
+}
+
+interface CommentResource {
+  id: string;
+  snippet: {
+    authorDisplayName: string;
+    authorChannelId?: { value: string };
+    textDisplay: string;
+    likeCount: number;
+    publishedAt: string;
+    updatedAt: string;
+  };
+}
+
 interface CommentThreadResponse {
   items: Array<{
     snippet: {
-      topLevelComment: {
-        id: string;
-        snippet: {
-          authorDisplayName: string;
-          authorChannelId?: { value: string };
-          textDisplay: string;
-          likeCount: number;
-          publishedAt: string;
-          updatedAt: string;
-        };
-      };
+      topLevelComment: CommentResource;
+      totalReplyCount: number;
+    };
+    replies?: {
+      comments: CommentResource[]; // Truncated by the API to a handful of replies
     };
   }>;
   nextPageToken?: string;
 }
 
+interface CommentListResponse {
+  items: CommentResource[];
+  nextPageToken?: string;
+}
+
 export class YouTubeClient {
   private apiKey: string;
   private maxResults: number;
   private timeout: number;
+  private maxRepliesPerThread: number;
+  private quota?: QuotaTracker;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter?: TokenBucket;
+  private sleep: (ms: number) => Promise<void>;
 
   constructor(config: YouTubeAPIConfig) {
     this.apiKey = config.apiKey;
     this.maxResults = config.maxResults || 100;
     this.timeout = config.timeout || 10000;
+    this.maxRepliesPerThread = config.maxRepliesPerThread ?? 100;
+    this.quota = config.quota;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    this.rateLimiter = config.rateLimiter;
+    this.sleep = config.sleep || sleep;
   }
 
   /**
@@ -96,6 +202,165 @@ export class YouTubeClient {
     }
   }
 
+  /**
+   * Extract the playlist ID from a URL with a `list=` parameter:
+   * https://www.youtube.com/playlist?list=..., https://www.youtube.com/watch?v=...&list=...
+   */
+  static extractPlaylistId(url: string): string | null {
+    try {
+      const urlObj = new URL(url);
+      if (!urlObj.hostname.includes("youtube.com") && urlObj.hostname !== "youtu.be") return null;
+      return urlObj.searchParams.get("list") || null;
+    } catch {
+      const regexMatch = url.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+      return regexMatch ? regexMatch[1] : null;
+    }
+  }
+
+  /**
+   * Extract a channel reference from a channel URL, an @handle or a bare
+   * channel ID:
+   * https://www.youtube.com/channel/UC..., https://www.youtube.com/@name, @name, UC...
+   */
+  static extractChannelRef(input: string): ChannelRef | null {
+    const value = input.trim();
+
+    if (/^UC[a-zA-Z0-9_-]{22}$/.test(value)) {
+      return { type: "id", value };
+    }
+    if (/^@[\w.-]+$/.test(value)) {
+      return { type: "handle", value };
+    }
+
+    try {
+      const urlObj = new URL(value);
+      if (!urlObj.hostname.includes("youtube.com")) return null;
+
+      const [first, second] = urlObj.pathname.split("/").filter(Boolean);
+
+      // Channel URL: https://www.youtube.com/channel/CHANNEL_ID
+      if (first === "channel" && second) {
+        return { type: "id", value: second };
+      }
+
+      // Handle URL: https://www.youtube.com/@handle
+      if (first?.startsWith("@")) {
+        return { type: "handle", value: decodeURIComponent(first) };
+      }
+
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetch channel metadata, including its uploads playlist
+   */
+  async getChannel(ref: ChannelRef): Promise<YouTubeChannel> {
+    const url = new URL(`${YOUTUBE_API_BASE}/channels`);
+    url.searchParams.set("part", "snippet,contentDetails,statistics");
+    url.searchParams.set(ref.type === "id" ? "id" : "forHandle", ref.value);
+    url.searchParams.set("key", this.apiKey);
+
+    const response = await this.request<ChannelResponse>("channels.list", url);
+
+    if (!response.items || response.items.length === 0) {
+      throw this.createError("Channel not found", "CHANNEL_NOT_FOUND", 404);
+    }
+
+    const { id, snippet, contentDetails, statistics } = response.items[0];
+
+    return {
+      id,
+      title: snippet.title,
+      handle: snippet.customUrl,
+      description: snippet.description,
+      thumbnailUrl: snippet.thumbnails.high?.url || snippet.thumbnails.default?.url || "",
+      subscriberCount: statistics.hiddenSubscriberCount ? undefined : parseInt(statistics.subscriberCount || "0", 10),
+      videoCount: parseInt(statistics.videoCount || "0", 10),
+      uploadsPlaylistId: contentDetails.relatedPlaylists.uploads,
+    };
+  }
+
+  /**
+   * Fetch playlist metadata
+   */
+  async getPlaylist(playlistId: string): Promise<YouTubePlaylist> {
+    const url = new URL(`${YOUTUBE_API_BASE}/playlists`);
+    url.searchParams.set("part", "snippet,contentDetails");
+    url.searchParams.set("id", playlistId);
+    url.searchParams.set("key", this.apiKey);
+
+    const response = await this.request<PlaylistResponse>("playlists.list", url);
+
+    if (!response.items || response.items.length === 0) {
+      throw this.createError("Playlist not found", "PLAYLIST_NOT_FOUND", 404);
+    }
+
+    const { id, snippet, contentDetails } = response.items[0];
+
+    return {
+      id,
+      title: snippet.title,
+      channelName: snippet.channelTitle,
+      thumbnailUrl: snippet.thumbnails.high?.url || snippet.thumbnails.default?.url || "",
+      itemCount: contentDetails.itemCount,
+    };
+  }
+
+  /**
+   * List the videos of a playlist with pagination, in playlist order
+   * (newest first for a channel's uploads playlist)
+   */
+  async getPlaylistItems(
+    playlistId: string,
+    options?: { maxItems?: number }
+  ): Promise<YouTubePlaylistItem[]> {
+    const maxItems = options?.maxItems || 50;
+
+    const items: YouTubePlaylistItem[] = [];
+    let pageToken: string | undefined;
+
+    while (items.length < maxItems) {
+      if (items.length > 0 && !this.hasQuota("playlistItems.list")) {
+        console.warn(`[YouTube] Quota budget low; stopping at ${items.length} playlist items`);
+        break;
+      }
+
+      const url = new URL(`${YOUTUBE_API_BASE}/playlistItems`);
+      url.searchParams.set("part", "snippet,contentDetails");
+      url.searchParams.set("playlistId", playlistId);
+      url.searchParams.set("maxResults", Math.min(50, maxItems - items.length).toString());
+      url.searchParams.set("key", this.apiKey);
+
+      if (pageToken) {
+        url.searchParams.set("pageToken", pageToken);
+      }
+
+      const response = await this.request<PlaylistItemResponse>("playlistItems.list", url);
+
+      if (!response.items || response.items.length === 0) {
+        break;
+      }
+
+      for (const item of response.items) {
+        items.push({
+          videoId: item.contentDetails.videoId,
+          title: item.snippet.title,
+          publishedAt: item.contentDetails.videoPublishedAt || item.snippet.publishedAt,
+          position: item.snippet.position,
+        });
+        if (items.length >= maxItems) break;
+      }
+
+      pageToken = response.nextPageToken;
+      if (!pageToken) break;
+    }
+
+    return items;
+  }
+
   /**
    * Fetch video metadata
    */
@@ -105,7 +370,7 @@ export class YouTubeClient {
     url.searchParams.set("id", videoId);
     url.searchParams.set("key", this.apiKey);
 
-    const response = await this.fetchWithTimeout<VideoResponse>(url.toString());
+    const response = await this.request<VideoResponse>("videos.list", url);
 
     if (!response.items || response.items.length === 0) {
       throw this.createError("Video not found", "VIDEO_NOT_FOUND", 404);
@@ -143,6 +408,15 @@ export class YouTubeClient {
 
   /**
    * Fetch comments for a video with pagination
+   *
+   * With `publishedAfter` and `order: "time"`, paging stops at the first
+   * older thread. New replies on older threads are not picked up.
+   *
+   * Threads with more replies than the API inlines are expanded through
+   * `getReplies`, up to `maxRepliesPerThread` replies each.
+   *
+   * When the quota budget runs low, paging stops early and the comments
+   * fetched so far are returned.
    */
   async getComments(
     videoId: string,
@@ -150,16 +424,25 @@ export class YouTubeClient {
       maxComments?: number;
       order?: "time" | "relevance";
       includeReplies?: boolean;
+      publishedAfter?: string; // ISO timestamp; only newer comments are returned
     }
   ): Promise<YouTubeComment[]> {
     const maxComments = options?.maxComments || this.maxResults;
     const order = options?.order || "relevance";
     const includeReplies = options?.includeReplies !== false;
+    const cutoff = options?.publishedAfter ? new Date(options.publishedAfter).getTime() : undefined;
+    const isNew = (publishedAt: string) => cutoff === undefined || new Date(publishedAt).getTime() > cutoff;
 
     const comments: YouTubeComment[] = [];
     let pageToken: string | undefined;
+    let reachedCutoff = false;
 
     while (comments.length < maxComments) {
+      if (comments.length > 0 && !this.hasQuota("commentThreads.list")) {
+        console.warn(`[YouTube] Quota budget low; stopping at ${comments.length} comments`);
+        break;
+      }
+
       const url = new URL(`${YOUTUBE_API_BASE}/commentThreads`);
       url.searchParams.set("part", "snippet,replies"); // Include replies part
       url.searchParams.set("videoId", videoId);
@@ -172,7 +455,7 @@ export class YouTubeClient {
       }
 
       try {
-        const response = await this.fetchWithTimeout<any>(url.toString());
+        const response = await this.request<CommentThreadResponse>("commentThreads.list", url);
 
         if (!response.items || response.items.length === 0) {
           break;
@@ -181,44 +464,44 @@ export class YouTubeClient {
         for (const item of response.items) {
           // 1. Add top-level comment
           const topComment = item.snippet.topLevelComment;
-          const topSnippet = topComment.snippet;
+          const totalReplyCount = item.snippet.totalReplyCount || 0;
+
+          if (!isNew(topComment.snippet.publishedAt)) {
+            // Threads arrive newest first in time order; everything after this is older
+            if (order === "time") {
+              reachedCutoff = true;
+              break;
+            }
+            continue;
+          }
 
           comments.push({
-            id: topComment.id,
-            videoId,
-            author: topSnippet.authorDisplayName,
-            authorChannelId: topSnippet.authorChannelId?.value,
-            text: topSnippet.textDisplay,
-            likeCount: topSnippet.likeCount,
-            publishedAt: topSnippet.publishedAt,
-            updatedAt: topSnippet.updatedAt,
+            ...this.toComment(topComment, videoId),
+            replyCount: totalReplyCount,
           });
 
           if (comments.length >= maxComments) break;
 
-          // 2. Add replies if present in the thread
-          if (includeReplies && item.replies && item.replies.comments) {
-            for (const reply of item.replies.comments) {
-              const replySnippet = reply.snippet;
-              comments.push({
-                id: reply.id,
-                videoId,
-                author: replySnippet.authorDisplayName,
-                authorChannelId: replySnippet.authorChannelId?.value,
-                text: replySnippet.textDisplay,
-                likeCount: replySnippet.likeCount,
-                publishedAt: replySnippet.publishedAt,
-                updatedAt: replySnippet.updatedAt,
-                parentId: topComment.id,
-              });
-
-              if (comments.length >= maxComments) break;
+          // 2. Add replies, paging through the full thread when the inline list is truncated
+          if (includeReplies && totalReplyCount > 0 && this.maxRepliesPerThread > 0) {
+            const inline = item.replies?.comments || [];
+            const replyLimit = Math.min(this.maxRepliesPerThread, maxComments - comments.length);
+            const replies = totalReplyCount > inline.length && inline.length < replyLimit && this.hasQuota("comments.list")
+              ? await this.getReplies(topComment.id, videoId, { maxReplies: replyLimit })
+              : inline.map((reply) => this.toComment(reply, videoId, topComment.id));
+
+            for (const reply of replies.slice(0, replyLimit)) {
+              if (!isNew(reply.publishedAt)) continue;
+
+              comments.push(reply);
             }
           }
 
           if (comments.length >= maxComments) break;
         }
 
+        if (reachedCutoff) break;
+
         pageToken = response.nextPageToken;
         if (!pageToken) break;
       } catch (error) {
@@ -232,6 +515,114 @@ export class YouTubeClient {
     return comments;
   }
 
+  /**
+   * Fetch the replies of a comment thread via comments.list
+   */
+  async getReplies(
+    parentId: string,
+    videoId: string,
+    options?: { maxReplies?: number }
+  ): Promise<YouTubeComment[]> {
+    const maxReplies = options?.maxReplies ?? this.maxRepliesPerThread;
+
+    const replies: YouTubeComment[] = [];
+    let pageToken: string | undefined;
+
+    while (replies.length < maxReplies) {
+      if (replies.length > 0 && !this.hasQuota("comments.list")) break;
+
+      const url = new URL(`${YOUTUBE_API_BASE}/comments`);
+      url.searchParams.set("part", "snippet");
+      url.searchParams.set("parentId", parentId);
+      url.searchParams.set("maxResults", Math.min(100, maxReplies - replies.length).toString());
+      url.searchParams.set("key", this.apiKey);
+
+      if (pageToken) {
+        url.searchParams.set("pageToken", pageToken);
+      }
+
+      const response = await this.request<CommentListResponse>("comments.list", url);
+
+      if (!response.items || response.items.length === 0) {
+        break;
+      }
+
+      for (const reply of response.items) {
+        replies.push(this.toComment(reply, videoId, parentId));
+        if (replies.length >= maxReplies) break;
+      }
+
+      pageToken = response.nextPageToken;
+      if (!pageToken) break;
+    }
+
+    return replies;
+  }
+
+  /**
+   * Map a comment resource to our domain type
+   */
+  private toComment(resource: CommentResource, videoId: string, parentId?: string): YouTubeComment {
+    const snippet = resource.snippet;
+    return {
+      id: resource.id,
+      videoId,
+      author: snippet.authorDisplayName,
+      authorChannelId: snippet.authorChannelId?.value,
+      text: snippet.textDisplay,
+      likeCount: snippet.likeCount,
+      publishedAt: snippet.publishedAt,
+      updatedAt: snippet.updatedAt,
+      parentId,
+    };
+  }
+
+  /**
+   * Whether the quota budget allows another call of this type
+   */
+  private hasQuota(call: QuotaCall): boolean {
+    return !this.quota || this.quota.canSpend(QUOTA_COSTS[call]);
+  }
+
+  /**
+   * Perform an API call with rate limiting and retries. Every attempt is
+   * charged against the quota budget.
+   */
+  private async request<T>(call: QuotaCall, url: URL): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      if (this.quota && !this.quota.tryConsume(call)) {
+        throw this.createError("YouTube API daily quota budget exhausted", "QUOTA_BUDGET_EXCEEDED", 429);
+      }
+
+      await this.rateLimiter?.acquire();
+
+      try {
+        return await this.fetchWithTimeout<T>(url.toString());
+      } catch (error) {
+        const clientError = error as ClientError;
+        if (attempt >= this.retryPolicy.maxAttempts || !this.isRetryable(clientError)) {
+          throw error;
+        }
+
+        // A server-sent Retry-After is honoured up to the policy's longest delay
+        const delay = clientError.retryAfterMs !== undefined
+          ? Math.min(clientError.retryAfterMs, this.retryPolicy.maxDelayMs)
+          : computeBackoffDelay(attempt, this.retryPolicy);
+        console.warn(`[YouTube] ${call} failed (${clientError.code}); retrying in ${delay}ms (attempt ${attempt + 1}/${this.retryPolicy.maxAttempts})`);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Whether a failed request is worth retrying
+   */
+  private isRetryable(error: ClientError): boolean {
+    if (error.code === "TIMEOUT" || error.code === "NETWORK_ERROR") return true;
+    if (RETRYABLE_REASONS.includes(error.code)) return true;
+    return error.statusCode === 429 || (error.statusCode !== undefined && error.statusCode >= 500);
+  }
+
   /**
    * Fetch with timeout
    */
@@ -244,11 +635,13 @@ export class YouTubeClient {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw this.createError(
+        const error: ClientError = this.createError(
           errorData.error?.message || `HTTP ${response.status}`,
           errorData.error?.errors?.[0]?.reason || "API_ERROR",
           response.status
         );
+        error.retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+        throw error;
       }
 
       return await response.json();
@@ -293,6 +686,22 @@ export class YouTubeClient {
   }
 }
 
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+const globalForRateLimit = globalThis as unknown as { youtubeRateLimiter?: TokenBucket };
+
+/**
+ * Process-wide limiter shared by all YouTube clients
+ */
+function getYouTubeRateLimiter(): TokenBucket {
+  if (!globalForRateLimit.youtubeRateLimiter) {
+    const configured = parseFloat(process.env.YOUTUBE_REQUESTS_PER_SECOND || "");
+    const perSecond = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_REQUESTS_PER_SECOND;
+    globalForRateLimit.youtubeRateLimiter = new TokenBucket(Math.max(1, Math.ceil(perSecond)), perSecond);
+  }
+  return globalForRateLimit.youtubeRateLimiter;
+}
+
 /**
  * Create a YouTube client instance
  */
@@ -303,5 +712,12 @@ export function createYouTubeClient(apiKey?: string): YouTubeClient {
     throw new Error("YouTube API key is required. Set NEXT_PUBLIC_YOUTUBE_API_KEY environment variable.");
   }
 
-  return new YouTubeClient({ apiKey: key });
+  return new YouTubeClient({
+    apiKey: key,
+    quota: getQuotaTracker(),
+    rateLimiter: getYouTubeRateLimiter(),
+    maxRepliesPerThread: process.env.MAX_REPLIES_PER_THREAD
+      ? parseInt(process.env.MAX_REPLIES_PER_THREAD)
+      : undefined,
+  });
 }
@@ -0,0 +1,122 @@
+/**
+ * YouTube Data API quota accounting
+ *
+ * Every list call costs quota units against a daily budget (10,000 by
+ * default) that resets at midnight Pacific Time. The tracker is in-memory,
+ * so usage made outside this process is not counted.
+ */
+
+export type QuotaCall =
+  | "videos.list"
+  | "commentThreads.list"
+  | "comments.list"
+  | "channels.list"
+  | "playlistItems.list"
+  | "playlists.list";
+
+/**
+ * Units charged per call type
+ */
+export const QUOTA_COSTS: Record<QuotaCall, number> = {
+  "videos.list": 1,
+  "commentThreads.list": 1,
+  "comments.list": 1,
+  "channels.list": 1,
+  "playlistItems.list": 1,
+  "playlists.list": 1,
+};
+
+export interface QuotaUsage {
+  day: string; // Pacific Time date (YYYY-MM-DD) the usage applies to
+  budget: number;
+  used: number;
+  remaining: number;
+  byCall: Record<QuotaCall, number>;
+}
+
+/**
+ * Current quota day, aligned with YouTube's midnight Pacific Time reset
+ */
+function quotaDay(now: Date): string {
+  return now.toLocaleDateString("en-CA", { timeZone: "America/Los_Angeles" });
+}
+
+function emptyUsage(): Record<QuotaCall, number> {
+  return {
+    "videos.list": 0,
+    "commentThreads.list": 0,
+    "comments.list": 0,
+    "channels.list": 0,
+    "playlistItems.list": 0,
+    "playlists.list": 0,
+  };
+}
+
+export class QuotaTracker {
+  private day: string;
+  private byCall = emptyUsage();
+
+  constructor(
+    private readonly budget: number,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.day = quotaDay(this.now());
+  }
+
+  /**
+   * Whether `units` more can be spent today
+   */
+  canSpend(units: number): boolean {
+    return this.getUsage().remaining >= units;
+  }
+
+  /**
+   * Charge a call against the budget; returns false (and charges nothing)
+   * if it would exceed the budget
+   */
+  tryConsume(call: QuotaCall): boolean {
+    const cost = QUOTA_COSTS[call];
+    if (!this.canSpend(cost)) return false;
+
+    this.byCall[call] += cost;
+    return true;
+  }
+
+  getUsage(): QuotaUsage {
+    this.rollOver();
+
+    const used = Object.values(this.byCall).reduce((sum, units) => sum + units, 0);
+    return {
+      day: this.day,
+      budget: this.budget,
+      used,
+      remaining: Math.max(0, this.budget - used),
+      byCall: { ...this.byCall },
+    };
+  }
+
+  private rollOver(): void {
+    const today = quotaDay(this.now());
+    if (today !== this.day) {
+      this.day = today;
+      this.byCall = emptyUsage();
+    }
+  }
+}
+
+// YouTube Data API default daily quota
+const DEFAULT_QUOTA_BUDGET = 10000;
+
+const globalForQuota = globalThis as unknown as { youtubeQuota?: QuotaTracker };
+
+/**
+ * Process-wide tracker shared by all YouTube clients
+ */
+export function getQuotaTracker(): QuotaTracker {
+  if (!globalForQuota.youtubeQuota) {
+    const configured = parseInt(process.env.YOUTUBE_QUOTA_BUDGET || "");
+    const budget = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_QUOTA_BUDGET;
+    globalForQuota.youtubeQuota = new QuotaTracker(budget);
+  }
+  return globalForQuota.youtubeQuota;
+}
@@ -17,6 +17,37 @@ export interface YouTubeVideo {
   transcript?: string;
 }
 
+export interface YouTubeChannel {
+  id: string;
+  title: string;
+  handle?: string; // e.g. "@creator"
+  description?: string;
+  thumbnailUrl: string;
+  subscriberCount?: number; // Hidden by some channels
+  videoCount: number;
+  uploadsPlaylistId: string;
+}
+
+/**
+ * How a channel was referred to: by channel ID (UC...) or by @handle
+ */
+export type ChannelRef = { type: "id"; value: string } | { type: "handle"; value: string };
+
+export interface YouTubePlaylist {
+  id: string;
+  title: string;
+  channelName: string;
+  thumbnailUrl: string;
+  itemCount: number;
+}
+
+export interface YouTubePlaylistItem {
+  videoId: string;
+  title: string;
+  publishedAt: string; // When the video was published (or added, if unavailable)
+  position: number;
+}
+
 export interface YouTubeComment {
   id: string;
   videoId: string;
@@ -27,6 +58,7 @@ export interface YouTubeComment {
   publishedAt: string;
   updatedAt?: string;
   parentId?: string; // For replies
+  replyCount?: number; // Total replies on a top-level comment
   parentText?: string; // Content of the parent comment
 }
 
@@ -109,6 +141,10 @@ export interface SentimentAnalysis {
   axisEvidence?: string; // Evidence for stance judgment
   replyRelation?: ReplyRelation; // Relation to parent comment
   speechAct?: SpeechAct; // Type of speech act
+
+  // Provenance (which provider/model produced this analysis)
+  provider?: string;
+  model?: string;
 }
 
 export interface AnalyzedComment extends YouTubeComment {
@@ -122,8 +158,17 @@ export interface AnalyzedComment extends YouTubeComment {
   confidence?: number;
   axisEvidence?: string;
   replyRelation?: ReplyRelation;
+  analysisError?: string; // Set when analysis failed; the comment is labeled Unknown
+  spamReason?: SpamReason; // Set when filtered as spam; the comment was not analyzed
+  provider?: string; // Provider/model that produced the analysis
+  model?: string;
 }
 
+/**
+ * Why a comment was filtered before analysis
+ */
+export type SpamReason = "duplicate" | "near-duplicate" | "link-spam" | "burst";
+
 // Aggregated Analytics Types
 export interface SentimentDistribution {
   support: number;
@@ -131,12 +176,43 @@ export interface SentimentDistribution {
   oppose: number;
   total: number;
   uniqueUsers: number;
+  failed?: number; // Comments whose analysis failed (excluded from the counts)
+  spam?: number; // Comments filtered as spam (excluded from the counts)
 }
 
 export interface TimeSeriesPoint {
-  time: number; // Hours since video published
-  avgSentiment: SentimentScore;
+  time: number; // Start of the bucket, in hours since video published
+  endTime?: number; // End of the bucket
+  avgSentiment: SentimentScore; // 0 for an empty bucket
+  likeWeightedSentiment?: SentimentScore; // Average weighted by likes + 1
   commentCount: number;
+  support?: number; // Comment counts by stance
+  neutral?: number;
+  oppose?: number;
+  ciLower?: number; // 95% confidence interval of avgSentiment (2+ comments)
+  ciUpper?: number;
+}
+
+/**
+ * Timeline bucket size; "auto" picks one from the span of the comments
+ */
+export type TimelineGranularity = "hour" | "day" | "week" | "auto";
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Confidence intervals of the stance shares (0-1)
+ */
+export interface DistributionConfidence {
+  level: number; // e.g. 0.95
+  method: "wilson";
+  effectiveSampleSize: number; // After weighting, before the finite population correction
+  support: ConfidenceInterval;
+  neutral: ConfidenceInterval;
+  oppose: ConfidenceInterval;
 }
 
 export interface ScatterDataPoint {
@@ -147,14 +223,221 @@ export interface ScatterDataPoint {
   commentId: string;
 }
 
+// Token/Cost Accounting Types
+export type UsagePhase = "summary" | "axisProfile" | "embeddings" | "richBatches" | "liteBatches";
+
+export interface PhaseUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface AnalysisUsage {
+  phases: Partial<Record<UsagePhase, PhaseUsage>>;
+  total: PhaseUsage;
+  models: string[]; // Models that handled at least one call
+  unpricedModels: string[]; // Models without a known price (counted as $0)
+}
+
+/**
+ * One author's comments on a video, keyed by channel ID
+ */
+export interface AuthorSummary {
+  authorKey: string; // authorChannelId, or the display name when missing
+  author: string;
+  authorChannelId?: string;
+  commentCount: number;
+  avgSentiment: SentimentScore;
+  support: number; // Comment counts by stance
+  neutral: number;
+  oppose: number;
+  isFlipFlopper: boolean; // Has both supporting and opposing comments
+  totalLikes: number;
+}
+
+/**
+ * A time window with anomalous comment volume and a stance shift, such as
+ * a wave of comments arriving from an external link
+ */
+export interface ActivityEvent {
+  start: string; // ISO timestamps bounding the event
+  end: string;
+  startHours: number; // The same bounds in hours since the video was published
+  endHours: number;
+  commentCount: number;
+  expectedCount: number; // Comments expected from the activity before the event
+  stance: "support" | "oppose"; // Stance whose share rose during the event
+  stanceShift: number; // Rise in that stance's share compared with before (0-1)
+  newAuthorShare: number; // Share of the event's authors who had not commented before (0-1)
+  textSimilarity: number; // Mean pairwise text similarity of the event's comments (0-1)
+  representativeComments: ActivityEventComment[];
+}
+
+export type ActivityEventComment = Pick<
+  AnalyzedComment,
+  "id" | "author" | "text" | "sentiment" | "likeCount" | "publishedAt"
+>;
+
+// Sampling Types
+export type SamplingStrategyName = "top-likes" | "like-weighted" | "random" | "time-stratified" | "thread-complete";
+
+/**
+ * How the analyzed comments were drawn from the video's comments
+ */
+export interface SamplingInfo {
+  strategy: SamplingStrategyName;
+  seed?: number; // For the randomized strategies
+  totalComments: number; // Comments on the video, as reported by YouTube
+  sampledComments: number; // Comments analyzed with a stance (no spam or failures)
+  richComments: number; // Of which analyzed with the full prompt
+  samplingRate: number; // sampledComments / totalComments, 0-1
+}
+
 export interface VideoAnalysis {
   video: YouTubeVideo;
   comments: AnalyzedComment[];
   distribution: SentimentDistribution;
+  confidence?: DistributionConfidence;
   timeline: TimeSeriesPoint[];
   scatterData: ScatterDataPoint[];
   analyzedAt: string;
   isPartial?: boolean;
+  usage?: AnalysisUsage; // LLM usage of the run that produced this analysis
+  sampling?: SamplingInfo;
+  authors?: AuthorSummary[]; // Most prolific commenters
+  activityEvents?: ActivityEvent[]; // Possible brigading, oldest first
+  axisProfile?: AxisProfile; // Axis mode only
+}
+
+// Channel Analysis Types
+export interface ChannelVideoSummary {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  thumbnailUrl: string;
+  distribution: SentimentDistribution;
+  confidence?: DistributionConfidence;
+  avgSentiment: SentimentScore; // Over comments with a stance
+  mainAxis?: string; // Axis mode only
+  isPartial?: boolean;
+}
+
+/**
+ * One upload on the channel's stance trend, oldest first
+ */
+export interface ChannelTrendPoint {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  avgSentiment: SentimentScore;
+  supportShare: number; // 0-1 of the video's comments with a stance
+  opposeShare: number;
+  commentCount: number;
+}
+
+/**
+ * An author who commented on several of the analyzed uploads
+ */
+export interface RecurringCommenter {
+  authorKey: string; // authorChannelId, or the display name when missing
+  author: string;
+  authorChannelId?: string;
+  videoCount: number;
+  commentCount: number;
+  avgSentiment: SentimentScore;
+  support: number; // Comment counts by stance
+  neutral: number;
+  oppose: number;
+}
+
+export interface ChannelReport {
+  channel: YouTubeChannel;
+  videos: ChannelVideoSummary[]; // Newest first, as on the channel
+  trend: ChannelTrendPoint[];
+  recurringCommenters: RecurringCommenter[]; // Most videos first
+  failedVideos: Array<{ videoId: string; title: string; error: string }>;
+  commentsPerVideo: number;
+  analyzedAt: string;
+}
+
+/**
+ * Aggregate of a playlist's analyzed videos
+ */
+export interface PlaylistReport {
+  playlist: YouTubePlaylist;
+  videos: ChannelVideoSummary[]; // Playlist order
+  distribution: SentimentDistribution; // All videos together
+  avgSentiment: SentimentScore; // Over every comment with a stance
+  recurringCommenters: RecurringCommenter[]; // Most videos first
+  failedVideos: Array<{ videoId: string; title: string; error: string }>;
+  analyzedAt: string;
+}
+
+export type ChannelProgressEvent =
+  | { type: "channel"; channel: YouTubeChannel; videos: YouTubePlaylistItem[] }
+  | { type: "videoStart"; videoId: string; index: number; total: number }
+  | { type: "videoProgress"; videoId: string; phase: AnalysisPhase }
+  | { type: "videoComplete"; videoId: string; summary: ChannelVideoSummary }
+  | { type: "videoError"; videoId: string; error: string }
+  | { type: "complete"; report: ChannelReport }
+  | { type: "error"; error: string; status?: number };
+
+// Pre-flight Estimate Types
+export interface CostEstimate {
+  videoId: string;
+  title: string;
+  commentCount: number;
+  sampledComments: number;
+  richComments: number;
+  liteComments: number;
+  batches: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number | null; // null when the model has no known price
+  estimatedDurationMs: number;
+  model: string;
+  axisMode: boolean;
+  stored: boolean; // A fresh stored analysis would be reused at no cost
+}
+
+// Streaming Progress Types
+export type AnalysisProgressEvent =
+  | { type: "video"; video: YouTubeVideo }
+  | { type: "transcript"; length: number }
+  | { type: "summary"; summary: string }
+  | { type: "axisProfile"; axisProfile: AxisProfile }
+  | { type: "comments"; total: number; totalBatches: number }
+  | { type: "cached"; comments: AnalyzedComment[] }
+  | { type: "filtered"; comments: AnalyzedComment[] }
+  | { type: "batch"; comments: AnalyzedComment[]; completedBatches: number; totalBatches: number }
+  | { type: "complete"; analysis: VideoAnalysis }
+  | { type: "error"; error: string; status?: number };
+
+export type AnalysisPhase = AnalysisProgressEvent["type"];
+
+// Analysis Options
+export type AnalysisMode = "legacy" | "axis";
+
+export type LLMProviderName = "openai" | "groq" | "gemini" | "openai-compatible";
+
+export type OutputLanguage = "en" | "ja";
+
+/**
+ * Per-request analysis options; unset fields fall back to server configuration
+ */
+export interface AnalysisOptions {
+  mode?: AnalysisMode; // Default: USE_AXIS_MODE
+  maxComments?: number; // Capped at MAX_COMMENTS
+  richTierThreshold?: number; // Comments given the full prompt; capped at RICH_TIER_THRESHOLD
+  provider?: LLMProviderName; // Tried first, before the rest of LLM_PROVIDER_CHAIN
+  includeReplies?: boolean;
+  order?: "relevance" | "time"; // Which comments YouTube returns first
+  language?: OutputLanguage; // Language of generated text (reasons, evidence, summary)
+  sampling?: SamplingStrategyName; // Which comments get the full prompt; default: SAMPLING_STRATEGY
+  seed?: number; // For the randomized strategies; default: derived from the video ID
 }
 
 // Engine Types
@@ -162,6 +445,8 @@ export interface AnalysisEngineConfig {
   batchSize: number; // Number of comments per LLM call
   maxComments?: number; // Limit total comments to analyze
   timeoutMs?: number; // API timeout
+  provider?: LLMProviderName; // Preferred provider; the chain is the fallback
+  language?: OutputLanguage; // Language of generated text
 }
 
 export interface BatchAnalysisRequest {
@@ -173,6 +458,7 @@ export interface BatchAnalysisRequest {
     description?: string;
     summary?: string;
   };
+  signal?: AbortSignal; // Cancels in-flight LLM calls
 }
 
 export interface BatchAnalysisResponse {